@@ -350,6 +350,8 @@ export default function Home() {
               onSelectCategory={handleCategorySelect}
               currentTurn={gameState.currentTurn}
               rollsLeft={gameState.rollsLeft}
+              upperSubtotal={gameState.upperSubtotal}
+              upperBonus={gameState.upperBonus}
               totalScore={gameState.totalScore}
               playerName={`Player ${activePlayer + 1}`}
             />
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LEADERBOARD_PERIODS, LeaderboardPeriod, SubmissionError, topScores, verifySubmission } from '@/lib/leaderboard';
+import { addScores, readScores } from '@/lib/scoreStore';
+import { isRuleSetId } from '@/lib/rulesets';
+
+// Reads and writes a file on this machine, so it needs Node and a fresh answer every time
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// GET /api/scores?ruleSet=classic&period=weekly
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const ruleSetId = params.get('ruleSet') ?? 'classic';
+  const period = (params.get('period') ?? 'all') as LeaderboardPeriod;
+  if (!isRuleSetId(ruleSetId)) return NextResponse.json({ error: 'Unknown rules' }, { status: 400 });
+  if (!LEADERBOARD_PERIODS.some((p) => p.id === period)) return NextResponse.json({ error: 'Unknown period' }, { status: 400 });
+  return NextResponse.json({ entries: topScores(await readScores(), ruleSetId, period) });
+}
+
+// POST /api/scores with a ScoreSubmission; the game is replayed before anything is stored
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Unreadable submission' }, { status: 400 });
+  }
+  try {
+    const entries = verifySubmission(body);
+    const added = await addScores(entries);
+    return NextResponse.json({ added }, { status: added > 0 ? 201 : 200 });
+  } catch (e) {
+    if (e instanceof SubmissionError) return NextResponse.json({ error: e.message }, { status: 422 });
+    throw e;
+  }
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchLeaderboard, LEADERBOARD_PERIODS, LeaderboardPeriod, ScoreEntry } from '@/lib/leaderboard';
+import { RULE_SETS } from '@/lib/rulesets';
+import { RuleSetId } from '@/lib/types';
+
+const selectClass = 'rounded-lg bg-black/40 px-3 py-1 text-sm border border-white/20';
+const MEDALS = ['🥇', '🥈', '🥉'];
+
+// Best scores from every device that finished a game against this server
+export default function LeaderboardPage() {
+  const [ruleSetId, setRuleSetId] = useState<RuleSetId>('classic');
+  const [period, setPeriod] = useState<LeaderboardPeriod>('weekly');
+  // Boards seen so far by variant and tab; null = the server couldn't be reached
+  const [boards, setBoards] = useState<Record<string, ScoreEntry[] | null>>({});
+  const key = `${ruleSetId}/${period}`;
+
+  useEffect(() => {
+    fetchLeaderboard(ruleSetId, period).then((entries) => setBoards((b) => ({ ...b, [`${ruleSetId}/${period}`]: entries })));
+  }, [ruleSetId, period]);
+
+  const entries = boards[key];
+
+  return (
+    <main className="min-h-screen bg-stone-950 text-white p-4 sm:p-8">
+      <div className="max-w-2xl mx-auto">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Link href="/" className="text-sm underline text-white/70">← Back to the table</Link>
+          <h1 className="text-2xl font-black mr-auto">Leaderboard</h1>
+          <select value={ruleSetId} onChange={(e) => setRuleSetId(e.target.value as RuleSetId)} className={selectClass}>
+            {Object.values(RULE_SETS).map((rules) => (
+              <option key={rules.id} value={rules.id} className="text-black">{rules.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          {LEADERBOARD_PERIODS.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => setPeriod(p.id)}
+              className={`rounded-full px-4 py-1 text-sm font-bold border ${p.id === period ? 'bg-amber-500 text-black border-amber-400' : 'bg-black/40 border-white/20'}`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+
+        <section className="rounded-xl bg-black/40 border border-white/10 p-4">
+          {entries === undefined ? (
+            <div className="text-white/60">Loading…</div>
+          ) : entries === null ? (
+            <div className="text-sm text-white/60">The leaderboard needs the app served by its own server (`npm start`); this copy has none.</div>
+          ) : entries.length === 0 ? (
+            <div className="text-sm text-white/60">No scores for these rules in this period yet.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <tbody>
+                {entries.map((e, i) => (
+                  <tr key={e.key} className="border-b border-white/5 last:border-0">
+                    <td className="py-1 pr-3 w-10 text-right tabular-nums text-white/70">{MEDALS[i] ?? i + 1}</td>
+                    <td className="py-1 font-bold">{e.name}</td>
+                    <td className="py-1 px-3 text-xs text-white/60">
+                      {e.playerCount > 1 ? `${e.playerCount} players` : 'solo'} · {new Date(e.submittedAt).toLocaleDateString()}
+                    </td>
+                    <td className="py-1 text-right font-black tabular-nums">{e.score}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
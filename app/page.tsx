@@ -1,47 +1,57 @@
 'use client';
 
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
 import DiceArena, { DiceArenaHandle } from '@/components/DiceArena';
 import MultiPlayerScorecard from '@/components/MultiPlayerScorecard';
+import ProbabilityPanel from '@/components/ProbabilityPanel';
+import ReplayControls from '@/components/ReplayControls';
 import SarzeeCelebration from '@/components/SarzeeCelebration';
+import StandingsRibbon from '@/components/StandingsRibbon';
+import TurnLinkPanel from '@/components/TurnLinkPanel';
 import NancyCelebration from '@/components/NancyCelebration';
 import ScorecardModal from '@/components/ScorecardModal';
+import ProfilesPanel from '@/components/ProfilesPanel';
+import HistoryPanel from '@/components/HistoryPanel';
+import AchievementToasts, { AchievementToast } from '@/components/AchievementToasts';
+import TrophyCase from '@/components/TrophyCase';
 import { SarzeeEngine } from '@/lib/SarzeeEngine';
-import { ScoreCategory, GameState, DieValue, GamePhase } from '@/lib/types';
+import { GameSession } from '@/lib/GameSession';
+import { getTieBreaker, Standing, TIE_BREAKERS, TieBreakerId } from '@/lib/standings';
+import { createSeed, SeededDiceSource } from '@/lib/DiceSource';
+import { CpuAgent, CpuDifficulty, CpuSeat } from '@/lib/CpuAgent';
+import { YahtzeeSolver } from '@/lib/YahtzeeSolver';
+import { GameReplay } from '@/lib/GameReplay';
+import { AchievementTracker } from '@/lib/AchievementTracker';
+import { LanClient, LanEvent } from '@/lib/LanClient';
+import { defaultLanUrl, LanIntent, LanMember, LanSnapshot, normalizeRoomCode } from '@/lib/lanProtocol';
+import { clearLanSeat, LanSeat, loadLanSeat, saveLanSeat } from '@/lib/lanSeat';
+import { computeHint, Hint } from '@/lib/hints';
+import { AchievementId, isNancy } from '@/lib/achievements';
+import { CLOCK_PRESETS, ClockSettings, formatClock, TurnClock } from '@/lib/TurnClock';
+import { CORRESPONDENCE_PARAM, correspondenceUrl, decodeCorrespondence, encodeCorrespondence } from '@/lib/correspondence';
+import { clearSavedGame, loadSavedGame, saveGame, SavedGame } from '@/lib/savedGame';
+import { createProfile, loadProfiles, PlayerProfile, recordGame, saveProfiles, unlockAchievement } from '@/lib/profiles';
+import { deleteMatch, loadMatches, matchFromSession, MatchRecord, saveMatch } from '@/lib/matchHistory';
+import { submitScores } from '@/lib/leaderboard';
+import { computeCategoryOdds } from '@/lib/probabilities';
+import { getRuleSet, RULE_SETS } from '@/lib/rulesets';
+import { ScoreCategory, GameState, DieValue, GamePhase, RuleSetId } from '@/lib/types';
 
 function computePotentialScores(engine: SarzeeEngine, state: GameState) {
   const out: Record<ScoreCategory, number> = {} as any;
-  (Object.values(ScoreCategory) as ScoreCategory[]).forEach((cat) => {
-    if (state.scorecard[cat] === null) out[cat] = engine.calculatePotentialScore(cat);
+  // Only legal boxes get a potential score (Joker rules can force a placement)
+  engine.getLegalCategories(state.diceValues).forEach((cat) => {
+    out[cat] = engine.calculatePotentialScore(cat);
   });
   return out;
 }
 
-// Check if dice form a Nancy: first roll, all different, not a straight
-function isNancy(dice: number[], rollsLeft: number): boolean {
-  // Must be first roll of turn (rollsLeft === 2 means we just did the first roll)
-  if (rollsLeft !== 2) return false;
-  
-  // All 5 dice must be different (no duplicates)
-  const unique = new Set(dice);
-  if (unique.size !== 5) return false;
-  
-  // Must NOT be a small or large straight
-  const sorted = Array.from(unique).sort((a, b) => a - b);
-  let maxSeq = 1;
-  let currentSeq = 1;
-  
-  for (let i = 0; i < sorted.length - 1; i++) {
-    if (sorted[i + 1] === sorted[i] + 1) {
-      currentSeq++;
-      maxSeq = Math.max(maxSeq, currentSeq);
-    } else {
-      currentSeq = 1;
-    }
-  }
-  
-  // Not a straight if max sequence is less than 4
-  return maxSeq < 4;
+// 1 -> "1st", 2 -> "2nd", 11 -> "11th"
+function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'}`;
 }
 
 function useSafeAudio(urls: string[]) {
@@ -105,6 +115,52 @@ const normalizeDie = (v: number) => Math.max(1, Math.min(6, Math.round(v)));
 
 const SCORECARD_LAYOUT = { left: '74%', top: '1%', width: '22%', height: '98%' }; // Maximized height to 98% and reduced top to 1% to show full scorecard
 
+const CPU_DIFFICULTIES: { id: CpuDifficulty; label: string }[] = [
+  { id: 'beginner', label: 'Beginner' },
+  { id: 'intermediate', label: 'Intermediate' },
+  { id: 'expert', label: 'Expert' },
+];
+
+const CPU_MISTAKE_RATES = [
+  { rate: 0, label: 'No mistakes' },
+  { rate: 0.1, label: 'Slips up' },
+  { rate: 0.25, label: 'Kid friendly' },
+];
+
+// CPU pacing: pause before each roll/score, and between individual hold toggles
+const CPU_STEP_MS = 900;
+const CPU_HOLD_MS = 450;
+
+// Seats at one table; boards have four themed dice colors, bigger games add the extras below
+const MAX_PLAYERS = 8;
+const EXTRA_DICE_COLORS = [
+  { hex: '#FFFFFF', title: 'Classic White' },
+  { hex: '#9AA3AF', title: 'Pewter' },
+  { hex: '#6B3FA0', title: 'Royal Purple' },
+  { hex: '#D9668C', title: 'Rose' },
+];
+
+// Replay pacing: pause between recorded actions (rolls also wait for the dice to settle)
+const REPLAY_STEP_MS = 800;
+
+// How often a dropped LAN device tries to get its seat back
+const LAN_RETRY_MS = 3000;
+
+// Turn clock: redraw rate, the last stretch shown in red, and how long a timed-out turn is announced
+const CLOCK_TICK_MS = 250;
+const CLOCK_WARN_MS = 10_000;
+const CLOCK_NOTE_MS = 3000;
+const ACHIEVEMENT_TOAST_MS = 5000;
+
+// This device's part in a LAN game; spectators mirror the game like guests but play no seat
+interface LanRoom {
+  role: 'host' | 'guest' | 'spectator';
+  code: string;
+  memberId: string;
+  members: LanMember[]; // guest devices in the room
+  seats: (string | null)[]; // member id playing each seat; null = played on the host's device
+}
+
 // Dynamic imports for export tools to avoid SSR issues
 const importExportTools = async () => {
   const htmlToImage = await import('html-to-image');
@@ -142,17 +198,64 @@ export default function Page() {
   const [playerCount, setPlayerCount] = useState(1);
   const [activePlayer, setActivePlayer] = useState(0);
 
-  const enginesRef = useRef<SarzeeEngine[]>([]);
+  const sessionRef = useRef<GameSession | null>(null);
+  const cpuAgentsRef = useRef<(CpuAgent | null)[]>([]);
   const arenaRef = useRef<DiceArenaHandle>(null);
 
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [potentialScores, setPotentialScores] = useState<Record<ScoreCategory, number>>({} as any);
   const [isRolling, setIsRolling] = useState(false);
 
-  const [setupStep, setSetupStep] = useState<'BOARD' | 'COUNT' | 'NAMES'>('BOARD');
+  const [setupStep, setSetupStep] = useState<'BOARD' | 'RULES' | 'COUNT' | 'NAMES'>('BOARD');
   const [selectedBoard, setSelectedBoard] = useState<string>('the-cafe');
+  const [selectedRuleSet, setSelectedRuleSet] = useState<RuleSetId>('classic');
   const [customNames, setCustomNames] = useState<string[]>([]);
   const [playerDiceColors, setPlayerDiceColors] = useState<string[]>([]); // Array of colors, one per player
+  const [cpuSeats, setCpuSeats] = useState<(CpuSeat | null)[]>([]); // null = human seat
+  const [cpuMessage, setCpuMessage] = useState<string | null>(null);
+  const [hintPlayers, setHintPlayers] = useState<boolean[]>([]); // hint mode, toggled per player
+  const [solverVersion, setSolverVersion] = useState(0); // bumps when the solver table arrives
+  const [oddsOpen, setOddsOpen] = useState(false);
+  const [savedGame, setSavedGame] = useState<SavedGame | null>(null); // offered on the BOARD step
+  const [seedInput, setSeedInput] = useState(''); // optional, to replay a disputed game
+  const [tieBreakers, setTieBreakers] = useState<TieBreakerId[]>([]); // applied in order; none = ties stand
+  const [gameSeed, setGameSeed] = useState<number | null>(null);
+  const [seedTyped, setSeedTyped] = useState(false); // a known seed means known dice, so the game stays off the leaderboard
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [replayIndex, setReplayIndex] = useState(-1); // -1 = before the first action
+  const [replayPlaying, setReplayPlaying] = useState(false);
+  const lanClientRef = useRef<LanClient | null>(null);
+  const lanRoomRef = useRef<LanRoom | null>(null); // latest room, for socket callbacks
+  const lanMessageRef = useRef<(event: LanEvent) => void>(() => {});
+  const lanSeqRef = useRef(0); // last snapshot sent (host) or shown (everyone else)
+  const lanRejoiningRef = useRef(false);
+  const [lanOnline, setLanOnline] = useState(false);
+  const [storedLanSeat, setStoredLanSeat] = useState<LanSeat | null>(null); // offered on the BOARD step after a reload
+  const [lanRoom, setLanRoomState] = useState<LanRoom | null>(null);
+  const [lanStatus, setLanStatus] = useState<string | null>(null); // connection progress and errors
+  const [joinCode, setJoinCode] = useState('');
+  const [joinName, setJoinName] = useState('');
+  const [byLink, setByLink] = useState(false); // setup choice: play by passing a game link around
+  const [correspondence, setCorrespondence] = useState<{ turnPlayed: boolean; link: string } | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [clockSettings, setClockSettings] = useState<ClockSettings | null>(null); // setup choice: no time limit by default
+  const [clock, setClock] = useState<TurnClock | null>(null); // the game's clock; only the device running the session has one
+  const clockRef = useRef<TurnClock | null>(null); // latest clock, for snapshots sent from session callbacks
+  const [lanClock, setLanClock] = useState<{ clock: TurnClock; running: boolean } | null>(null); // LAN guests: a copy of the host's clock
+  const [clockTick, setClockTick] = useState(0); // redraws the countdown
+  const [clockNote, setClockNote] = useState<string | null>(null); // what was scored for a player who ran out of time
+  const [tabHidden, setTabHidden] = useState(false);
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const [seatProfiles, setSeatProfiles] = useState<(string | null)[]>([]); // profile id per seat, null = just a name
+  const [profilesOpen, setProfilesOpen] = useState(false);
+  const recordedSessionRef = useRef<GameSession | null>(null); // the finished game already counted in the stats
+  const [history, setHistory] = useState<MatchRecord[] | null>(null); // loaded when the history is opened
+  const trackerRef = useRef<AchievementTracker | null>(null);
+  const achievementUnlockRef = useRef<(player: number, id: AchievementId) => void>(() => {});
+  const pendingAchievementsRef = useRef<AchievementToast[]>([]); // held back until the dice land
+  const achievementKeyRef = useRef(0);
+  const [achievementToasts, setAchievementToasts] = useState<AchievementToast[]>([]);
+  const [trophiesOpen, setTrophiesOpen] = useState(false);
 
   // Board options mapping
   const boardOptions = [
@@ -199,25 +302,130 @@ export default function Page() {
     
     // Assign themed dice colors based on selected board
     const themeColors = boardDiceColors[selectedBoard] || boardDiceColors['the-cafe'];
-    // For all themed boards, cycle through their color palette
-    const colors = Array.from({ length: count }, (_, i) => themeColors[i % themeColors.length]);
+    // Themed colors first, then the extras; only past eight players do colors repeat
+    const palette = [...themeColors, ...EXTRA_DICE_COLORS.map((c) => c.hex)];
+    const colors = Array.from({ length: count }, (_, i) => palette[i % palette.length]);
     setPlayerDiceColors(colors);
+    setCpuSeats(Array.from({ length: count }, () => null));
+    setSeatProfiles(Array.from({ length: count }, () => null));
     setSetupStep('NAMES');
   };
 
+  const setSeatDifficulty = (playerIndex: number, difficulty: CpuDifficulty | null) => {
+    const next = [...cpuSeats];
+    next[playerIndex] = difficulty ? { difficulty, mistakeRate: next[playerIndex]?.mistakeRate ?? 0 } : null;
+    setCpuSeats(next);
+
+    // Swap the placeholder name so the scorecard shows who is who
+    const names = [...customNames];
+    if (next[playerIndex] && names[playerIndex] === `Player ${playerIndex + 1}`) names[playerIndex] = `CPU ${playerIndex + 1}`;
+    if (!next[playerIndex] && names[playerIndex] === `CPU ${playerIndex + 1}`) names[playerIndex] = `Player ${playerIndex + 1}`;
+    setCustomNames(names);
+    if (next[playerIndex]) setSeatProfile(playerIndex, null);
+  };
+
+  const updateProfiles = (next: PlayerProfile[]) => {
+    setProfiles(next);
+    saveProfiles(next);
+  };
+
+  const setSeatProfile = (playerIndex: number, id: string | null) => {
+    setSeatProfiles((seats) => seats.map((s, i) => (i === playerIndex ? id : s)));
+  };
+
+  // Sit a profile in a seat (its name and dice come along), or save the seat as a new one
+  const pickSeatProfile = (playerIndex: number, choice: string) => {
+    if (choice === 'new') {
+      const profile = createProfile(customNames[playerIndex] || `Player ${playerIndex + 1}`, playerDiceColors[playerIndex] || '#FFFFFF');
+      updateProfiles([...profiles, profile]);
+      setSeatProfile(playerIndex, profile.id);
+      return;
+    }
+    const profile = profiles.find((p) => p.id === choice);
+    setSeatProfile(playerIndex, profile?.id ?? null);
+    if (!profile) return;
+    setCustomNames(customNames.map((n, i) => (i === playerIndex ? profile.name : n)));
+    setPlayerDiceColors(playerDiceColors.map((c, i) => (i === playerIndex ? profile.diceColor : c)));
+  };
+
+  const setSeatMistakeRate = (playerIndex: number, mistakeRate: number) => {
+    const seat = cpuSeats[playerIndex];
+    if (!seat) return;
+    const next = [...cpuSeats];
+    next[playerIndex] = { ...seat, mistakeRate };
+    setCpuSeats(next);
+  };
+
+  const toggleTieBreaker = (id: TieBreakerId) => {
+    setTieBreakers(tieBreakers.includes(id) ? tieBreakers.filter((t) => t !== id) : [...tieBreakers, id]);
+  };
+
   const selectPlayerDiceColor = (playerIndex: number, color: string) => {
     const newColors = [...playerDiceColors];
     newColors[playerIndex] = color;
     setPlayerDiceColors(newColors);
+    // Picking dice for a profile's seat makes them its usual dice
+    const profile = profiles.find((p) => p.id === seatProfiles[playerIndex]);
+    if (profile && profile.diceColor !== color) updateProfiles(profiles.map((p) => (p === profile ? { ...p, diceColor: color } : p)));
+  };
+
+  const seatCpuPlayers = (session: GameSession) => {
+    const players = session.getPlayers();
+    cpuAgentsRef.current = players.map((p, i) => (p.cpu ? new CpuAgent(session.getEngine(i), p.cpu) : null));
+    // Expert seats play from the precomputed table; until it arrives they use the basic heuristics
+    if (session.getRuleSet().id === 'classic' && players.some((p) => p.cpu?.difficulty === 'expert')) {
+      void YahtzeeSolver.loadShared();
+    }
+  };
+
+  // Achievements: one tracker per game on the table, replaced along with the session
+  const trackAchievements = (session: GameSession) => {
+    trackerRef.current?.dispose();
+    pendingAchievementsRef.current = [];
+    trackerRef.current = new AchievementTracker(session, (player, id) => achievementUnlockRef.current(player, id));
+  };
+
+  const showAchievements = () => {
+    const pending = pendingAchievementsRef.current;
+    if (pending.length === 0) return;
+    pendingAchievementsRef.current = [];
+    setAchievementToasts((toasts) => [...toasts, ...pending]);
+    for (const toast of pending) {
+      window.setTimeout(() => dismissAchievement(toast.key), ACHIEVEMENT_TOAST_MS);
+    }
+  };
+
+  const dismissAchievement = (key: number) => {
+    setAchievementToasts((toasts) => toasts.filter((t) => t.key !== key));
   };
 
   const commitStartGame = () => {
     const count = playerCount;
-    enginesRef.current = Array.from({ length: count }, () => new SarzeeEngine());
+    const ruleSet = getRuleSet(selectedRuleSet);
+    const typedSeed = Number.parseInt(seedInput.trim(), 10);
+    const seed = Number.isFinite(typedSeed) ? typedSeed >>> 0 : createSeed();
+    setGameSeed(seed);
+    setSeedTyped(Number.isFinite(typedSeed));
+    const players = Array.from({ length: count }, (_, i) => ({
+      name: customNames[i] || `Player ${i + 1}`,
+      diceColor: playerDiceColors[i] || '#FFFFFF',
+      cpu: cpuSeats[i] ?? null,
+    }));
+    const session = new GameSession(ruleSet, players, new SeededDiceSource(seed), count > 1 ? tieBreakers : []);
+    sessionRef.current = session;
+    seatCpuPlayers(session);
+    trackAchievements(session);
+    // A game link is played over days, so it never has a clock
+    const gameClock = clockSettings && !byLink ? new TurnClock(clockSettings, count) : null;
+    clockRef.current = gameClock;
+    setClock(gameClock);
+    if (lanRoomRef.current?.role === 'host') hostLanSession(session);
+    if (byLink) updateCorrespondence(false);
+    setClockNote(null);
 
     setActivePlayer(0);
 
-    const s = enginesRef.current[0].getGameState();
+    const s = session.getEngine(0).getGameState();
     setGameState(s);
     setPotentialScores({} as any);
 
@@ -225,8 +433,156 @@ export default function Page() {
     setPhase('PLAYING');
   };
 
+  useEffect(() => {
+    setSavedGame(loadSavedGame());
+    setStoredLanSeat(loadLanSeat());
+    setProfiles(loadProfiles());
+  }, []);
+
+  const resumeGame = () => {
+    if (!savedGame) return;
+    const seats = savedGame.cpuSeats ?? savedGame.engines.map(() => null);
+    let session: GameSession;
+    try {
+      // Saves from before seeded dice carry no RNG position; those continue on a fresh seed
+      session = GameSession.deserialize({
+        players: savedGame.engines.map((_, i) => ({
+          name: savedGame.customNames[i] || `Player ${i + 1}`,
+          diceColor: savedGame.playerDiceColors[i] || '#FFFFFF',
+          cpu: seats[i] ?? null,
+        })),
+        engines: savedGame.engines,
+        activePlayer: savedGame.activePlayer,
+        tieBreakers: savedGame.tieBreakers,
+        dice: savedGame.dice,
+      });
+    } catch (e) {
+      console.error(e);
+      clearSavedGame();
+      setSavedGame(null);
+      return;
+    }
+
+    sessionRef.current = session;
+    setGameSeed(session.getDiceState()?.seed ?? null);
+    setSeedTyped(!!savedGame.seedTyped);
+    seatCpuPlayers(session);
+    trackAchievements(session);
+
+    setSelectedBoard(savedGame.selectedBoard);
+    setSelectedRuleSet(session.getRuleSet().id);
+    setPlayerCount(session.getPlayerCount());
+    setCustomNames(savedGame.customNames);
+    setPlayerDiceColors(savedGame.playerDiceColors);
+    setCpuSeats(seats);
+    setSeatProfiles(savedGame.seatProfiles ?? seats.map(() => null));
+    setTieBreakers(session.getTieBreakers());
+    setActivePlayer(session.getActivePlayer());
+
+    const engine = session.getActiveEngine();
+    const s = engine.getGameState();
+    setGameState(s);
+    setPotentialScores(s.rollsLeft === 3 ? ({} as Record<ScoreCategory, number>) : computePotentialScores(engine, s));
+
+    // Put the dice back where they were
+    setTimeout(() => {
+      if (s.rollsLeft === 3) arenaRef.current?.reset();
+      else arenaRef.current?.forceResult(s.diceValues);
+    }, 0);
+    setPhase('PLAYING');
+  };
+
+  // Put a game that arrived whole (a LAN snapshot, a game link) on the table; returns the active player's state
+  const showSession = (session: GameSession, board: string): GameState => {
+    sessionRef.current = session;
+    const players = session.getPlayers();
+    setSelectedBoard(board);
+    setSelectedRuleSet(session.getRuleSet().id);
+    setPlayerCount(players.length);
+    setCustomNames(players.map((p) => p.name));
+    setPlayerDiceColors(players.map((p) => p.diceColor));
+    setCpuSeats(players.map((p) => p.cpu));
+    setTieBreakers(session.getTieBreakers());
+    setGameSeed(session.getDiceState()?.seed ?? null);
+    setActivePlayer(session.getActivePlayer());
+
+    const engine = session.getActiveEngine();
+    const s = engine.getGameState();
+    setGameState(s);
+    setPotentialScores(s.rollsLeft === 3 ? ({} as Record<ScoreCategory, number>) : computePotentialScores(engine, s));
+    setPhase(session.isGameOver() ? 'GAME_OVER' : 'PLAYING');
+    return s;
+  };
+
+  // Game links: open one from the address bar
+  const openCorrespondence = (token: string) => {
+    let opened: { session: GameSession; board: string };
+    try {
+      opened = decodeCorrespondence(token);
+    } catch (e) {
+      setLinkError((e as Error).message);
+      return;
+    }
+    seatCpuPlayers(opened.session);
+    trackAchievements(opened.session);
+    setCorrespondence({ turnPlayed: false, link: window.location.href });
+    showSession(opened.session, opened.board);
+    setTimeout(() => arenaRef.current?.reset(), 0);
+  };
+
+  // Game links: re-encode after every finished turn; the address bar follows so a refresh keeps the game
+  const updateCorrespondence = (turnPlayed: boolean) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    try {
+      const link = correspondenceUrl(encodeCorrespondence(session, selectedBoard));
+      window.history.replaceState(null, '', link);
+      setCorrespondence({ turnPlayed, link });
+    } catch (e) {
+      console.error(e);
+      setCorrespondence(null);
+    }
+  };
+
+  // Snapshot after every roll and commit; a finished game has nothing to resume
+  const autosave = () => {
+    const session = sessionRef.current;
+    if (!session || correspondence) return; // a game link carries its own state
+    if (session.isGameOver()) {
+      clearSavedGame();
+      return;
+    }
+    const data = session.serialize();
+    saveGame({
+      engines: data.engines,
+      customNames,
+      playerDiceColors,
+      selectedBoard,
+      activePlayer: data.activePlayer,
+      cpuSeats,
+      tieBreakers: data.tieBreakers,
+      dice: data.dice,
+      seatProfiles,
+      seedTyped,
+    });
+  };
+
   const resetAll = () => {
-    enginesRef.current = [];
+    leaveLanGame();
+    if (correspondence) window.history.replaceState(null, '', window.location.pathname);
+    setCorrespondence(null);
+    setByLink(false);
+    setLinkError(null);
+    setClockSettings(null);
+    setClock(null);
+    clockRef.current = null;
+    setLanClock(null);
+    setClockNote(null);
+    sessionRef.current = null;
+    cpuAgentsRef.current = [];
+    trackerRef.current?.dispose();
+    trackerRef.current = null;
+    pendingAchievementsRef.current = [];
     setGameState(null);
     setPotentialScores({} as any);
     setActivePlayer(0);
@@ -235,6 +591,15 @@ export default function Page() {
     setSetupStep('BOARD');
     setCustomNames([]);
     setPlayerDiceColors([]);
+    setCpuSeats([]);
+    setSeatProfiles([]);
+    setTieBreakers([]);
+    setGameSeed(null);
+    setSeedTyped(false);
+    setCpuMessage(null);
+    setHintPlayers([]);
+    setReplay(null);
+    setSavedGame(loadSavedGame());
     setIsRolling(false);
     setShowCelebration(false);
     setMobileScorecardOpen(false);
@@ -245,16 +610,45 @@ export default function Page() {
 
   const selectBoard = (boardId: string) => {
     setSelectedBoard(boardId);
+    setSetupStep('RULES');
+  };
+
+  const selectRuleSet = (id: RuleSetId) => {
+    setSelectedRuleSet(id);
     setSetupStep('COUNT');
   };
 
+  // Rule set of the game in progress (falls back to the setup choice)
+  const ruleSet = getRuleSet(gameState?.ruleSetId ?? selectedRuleSet);
+
+  // Human input is locked out while a computer seat is playing, and during replays
+  const isCpuTurn = phase === 'PLAYING' && !!cpuSeats[activePlayer];
+  const isReplay = phase === 'REPLAY';
+  // In a LAN game each seat is played from one device; the rest just watch that turn.
+  // The host stands in for guests that have dropped until they rejoin.
+  const ownsSeat = (player: number) => {
+    // A game link is played one human turn per device; computer seats after it play on
+    if (correspondence?.turnPlayed) return !!cpuSeats[player];
+    if (!lanRoom) return true;
+    const id = lanRoom.seats[player];
+    if (lanRoom.role !== 'host') return id === lanRoom.memberId;
+    return !id || !lanRoom.members.some((m) => m.id === id && !m.offline);
+  };
+  const isRemoteTurn = phase === 'PLAYING' && !ownsSeat(activePlayer);
+
   const handleDieClick = (idx: number) => {
     if (!gameState) return;
+    if (isCpuTurn || isRemoteTurn) return;
     if (isRolling) return; // prevent mid-animation toggles
     if (gameState.rollsLeft === 3) return;
+    if (lanRoom?.role === 'guest') {
+      sendLanIntent({ type: 'toggleHold', index: idx });
+      return;
+    }
 
-    const engine = enginesRef.current[activePlayer];
-    engine.toggleHold(idx);
+    const session = sessionRef.current!;
+    const engine = session.getActiveEngine();
+    session.toggleHold(idx);
 
     const s = engine.getGameState();
     setGameState(s);
@@ -279,10 +673,14 @@ export default function Page() {
       }
     }
 
+    // Replays re-animate old rolls; no celebrations or popups
+    if (phase === 'REPLAY') return;
+    showAchievements();
+
     // Celebration: if current roll is a Yahtzee visually/emitted
     // Add 1-second delay before showing celebration
     const vals = results.map((v) => normalizeDie(v));
-    if (vals.length === 5 && vals.every((v) => v === vals[0])) {
+    if (vals.length === ruleSet.diceCount && vals.every((v) => v === vals[0])) {
       // Clear any existing timeout to prevent multiple celebrations
       if (celebrationTimeoutRef.current) {
         clearTimeout(celebrationTimeoutRef.current);
@@ -310,33 +708,35 @@ export default function Page() {
     }
 
     // Auto-open scorecard on small devices aka "popup mode" when turn settles
-    if (!canShowEmbedded) {
+    if (!canShowEmbedded && !isCpuTurn && !isRemoteTurn) {
       setMobileScorecardOpen(true);
     }
   };
 
-  const handleRoll = async () => {
+  const handleRoll = () => {
+    if (isCpuTurn || isRemoteTurn) return;
+    if (lanRoom?.role === 'guest') {
+      if (!gameState || isRolling || gameState.rollsLeft <= 0 || gameState.isGameOver) return;
+      sendLanIntent({ type: 'roll' });
+      return;
+    }
+    performRoll();
+  };
+
+  const performRoll = () => {
     if (!gameState) return;
     if (isRolling) return;
     if (gameState.rollsLeft <= 0) return;
     if (gameState.isGameOver) return;
     if (!arenaRef.current) return;
 
-    const engine = enginesRef.current[activePlayer];
-
-    // Decide values NOW (game-correct).
-    const decided: number[] = [];
-    for (let i = 0; i < 5; i++) {
-      if (gameState.heldDice[i]) {
-        decided[i] = normalizeDie(Number(gameState.diceValues[i] ?? 1));
-      } else {
-        decided[i] = 1 + Math.floor(Math.random() * 6);
-      }
-    }
+    const session = sessionRef.current!;
+    const engine = session.getActiveEngine();
 
-    // Commit to engine immediately (truth source)
+    // Decide values NOW (game-correct): the engine draws from the game's seeded dice source
+    let decided: number[] = [];
     try {
-      engine.rollDice(decided as DieValue[]);
+      decided = session.roll();
     } catch (e) {
       // eslint-disable-next-line no-console
       console.error(e);
@@ -347,6 +747,7 @@ export default function Page() {
     setGameState(sAfter);
     setEngineDiceValues(sAfter.diceValues.map((v) => Number(v)));
     setPotentialScores(sAfter.rollsLeft === 3 ? ({} as any) : computePotentialScores(engine, sAfter));
+    autosave();
 
     // Animate then snap the visuals to the decided outcome
     setIsRolling(true);
@@ -371,14 +772,19 @@ export default function Page() {
       console.log('forceNancy: game over');
       return;
     }
+    if (gameState.diceValues.length !== 5) {
+      console.log('forceNancy: Nancy needs five dice');
+      return;
+    }
 
     console.log('forceNancy: executing');
-    const engine = enginesRef.current[activePlayer];
+    const session = sessionRef.current!;
+    const engine = session.getActiveEngine();
     // Roll 5 different dice that don't form a straight (e.g., 1, 2, 4, 5, 6)
     const decided = [1, 2, 4, 5, 6];
 
     try {
-      engine.rollDice(decided as DieValue[]);
+      session.rollDice(decided as DieValue[]);
     } catch (e) {
       // eslint-disable-next-line no-console
       console.error(e);
@@ -392,7 +798,7 @@ export default function Page() {
 
     setIsRolling(true);
     arenaRef.current.rollToResult(decided, { chaosMs: 700 });
-  }, [activePlayer, gameState, isRolling]);
+  }, [gameState, isRolling]);
 
   const triggerCelebration = useCallback(() => {
     setShowCelebration(false);
@@ -400,38 +806,435 @@ export default function Page() {
   }, []);
 
   const handleCategorySelect = (category: ScoreCategory) => {
+    if (isCpuTurn || isRemoteTurn) return;
+    if (lanRoom?.role === 'guest') {
+      if (!gameState || isRolling || gameState.rollsLeft === 3) return;
+      sendLanIntent({ type: 'commitScore', category });
+      return;
+    }
+    commitCategory(category);
+  };
+
+  const commitCategory = (category: ScoreCategory) => {
     if (!gameState) return;
     if (isRolling) return;
     if (gameState.rollsLeft === 3) return;
 
-    const engine = enginesRef.current[activePlayer];
+    const session = sessionRef.current!;
     try {
-      engine.commitScore(category);
+      session.commitScore(category);
     } catch (e) {
       // eslint-disable-next-line no-console
       console.error(e);
       return;
     }
+    finishTurn();
+  };
 
-    const nextPlayer = (activePlayer + 1) % playerCount;
-    setActivePlayer(nextPlayer);
+  // After any commit: move the table on to the next turn (or the end of the game)
+  const finishTurn = () => {
+    const session = sessionRef.current!;
+    setActivePlayer(session.getActivePlayer());
+    autosave();
+    if (correspondence) updateCorrespondence(correspondence.turnPlayed || !cpuSeats[activePlayer]);
 
-    const nextEngine = enginesRef.current[nextPlayer];
-    const s = nextEngine.getGameState();
+    const s = session.getActiveEngine().getGameState();
     setGameState(s);
     setPotentialScores({} as any);
 
     arenaRef.current?.reset();
     setIsRolling(false);
     setMobileScorecardOpen(false);
+    setCpuMessage(null);
 
-    if (s.isGameOver) {
+    showAchievements();
+    if (session.isGameOver()) {
       setPhase('GAME_OVER');
       // Don't auto-open modal on desktop - let user click scorecard button if they want it
       // On mobile, the scorecard is already accessible via the button
     }
   };
 
+  // Show the session's active player as the live turn again after an undo/redo
+  const restoreTurn = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const engine = session.getActiveEngine();
+    const s = engine.getGameState();
+    setActivePlayer(session.getActivePlayer());
+    setGameState(s);
+    setPotentialScores(s.rollsLeft === 3 ? ({} as Record<ScoreCategory, number>) : computePotentialScores(engine, s));
+    setMobileScorecardOpen(false);
+    if (s.rollsLeft === 3) arenaRef.current?.reset();
+    else arenaRef.current?.forceResult(s.diceValues);
+    setPhase(session.isGameOver() ? 'GAME_OVER' : 'PLAYING');
+    autosave();
+  };
+
+  // Read from the session on every render; each action publishes a fresh gameState.
+  // A finished game stays finished: its result is already in the history, the profiles and the leaderboard
+  const undoOwner = sessionRef.current?.getUndoOwner() ?? null;
+  // Not in LAN games, where the other devices would have to agree to the rewind, nor past your own move in a game link
+  const linkAllowsUndo = !correspondence || (!correspondence.turnPlayed && undoOwner === activePlayer);
+  // Against the clock, only holds in the turn being played; a commit made on time can't be taken back for a fresh clock
+  const clockAllowsUndo = !clock || (undoOwner === activePlayer && !!gameState && gameState.rollsLeft < 3);
+  const canUndo = !!gameState && phase === 'PLAYING' && !isRolling && !isCpuTurn && !lanRoom && linkAllowsUndo && clockAllowsUndo && undoOwner !== null;
+  const canRedo = !!gameState && phase === 'PLAYING' && !isRolling && !isCpuTurn && !lanRoom && !correspondence?.turnPlayed && !!sessionRef.current?.canRedo();
+
+  const handleUndo = () => {
+    if (!canUndo || undoOwner === null) return;
+    if (undoOwner !== activePlayer && !window.confirm(`Undo ${names[undoOwner]}'s last move? It is ${names[activePlayer]}'s turn now.`)) return;
+
+    sessionRef.current!.undo();
+    restoreTurn();
+  };
+
+  const handleRedo = () => {
+    if (!canRedo) return;
+    if (!sessionRef.current!.redo()) return;
+    restoreTurn();
+  };
+
+  const setLanRoom = (room: LanRoom | null) => {
+    lanRoomRef.current = room;
+    setLanRoomState(room);
+  };
+
+  const connectLan = async (url = defaultLanUrl()): Promise<LanClient> => {
+    lanClientRef.current?.close();
+    const client = new LanClient(url);
+    setLanStatus('Connecting…');
+    await client.connect();
+    client.subscribe((event) => lanMessageRef.current(event));
+    lanClientRef.current = client;
+    setLanOnline(true);
+    setLanStatus(null);
+    return client;
+  };
+
+  const hostLanGame = async () => {
+    try {
+      const client = await connectLan();
+      client.send({ type: 'create', name: customNames[0] || 'Player 1' });
+    } catch (e) {
+      setLanStatus((e as Error).message);
+    }
+  };
+
+  const joinLanGame = async (spectate: boolean) => {
+    const code = normalizeRoomCode(joinCode);
+    if (!code) return;
+    try {
+      const client = await connectLan();
+      client.send({ type: 'join', code, name: joinName.trim() || (spectate ? 'Spectator' : 'Guest'), spectate });
+    } catch (e) {
+      setLanStatus((e as Error).message);
+    }
+  };
+
+  // Take this tab's seat back after a dropped connection or a reload
+  const rejoinLanGame = async () => {
+    const seat = loadLanSeat();
+    if (!seat || lanRejoiningRef.current) return;
+    lanRejoiningRef.current = true;
+    try {
+      const client = await connectLan(seat.url);
+      client.send({ type: 'rejoin', code: seat.code, token: seat.token });
+    } catch {
+      lanRejoiningRef.current = false;
+      setLanStatus('Connection lost, retrying…');
+    }
+  };
+
+  const leaveLanGame = () => {
+    lanClientRef.current?.send({ type: 'leave' });
+    lanClientRef.current?.close();
+    lanClientRef.current = null;
+    lanRejoiningRef.current = false;
+    lanSeqRef.current = 0;
+    clearLanSeat();
+    setStoredLanSeat(null);
+    setLanOnline(false);
+    setLanRoom(null);
+    setLanStatus(null);
+  };
+
+  const sendLanIntent = (intent: LanIntent) => {
+    lanClientRef.current?.send({ type: 'intent', intent });
+  };
+
+  // Host: send the guests the whole game; `roll` marks a fresh roll for them to animate
+  const broadcastLanSnapshot = (roll?: LanSnapshot['roll']) => {
+    const room = lanRoomRef.current;
+    const session = sessionRef.current;
+    if (room?.role !== 'host' || !session) return;
+    const seq = ++lanSeqRef.current;
+    const gameClock = clockRef.current;
+    const clockState = gameClock ? { settings: gameClock.getSettings(), remaining: gameClock.getRemaining(), running: gameClock.isRunning() } : undefined;
+    lanClientRef.current?.send({ type: 'snapshot', snapshot: { seq, session: session.serialize(), seats: room.seats, board: selectedBoard, roll, clock: clockState } });
+  };
+
+  // Host: publish every change to the session, one snapshot per burst (a commit also passes the turn)
+  const hostLanSession = (session: GameSession) => {
+    const room = lanRoomRef.current!;
+    setLanRoom({ ...room, seats: Array.from({ length: session.getPlayerCount() }, (_, i) => (cpuSeats[i] ? null : room.seats[i] ?? null)) });
+    let pending: { roll?: LanSnapshot['roll'] } | null = null;
+    session.subscribe((event) => {
+      if (!pending) {
+        pending = {};
+        queueMicrotask(() => {
+          const roll = pending?.roll;
+          pending = null;
+          if (sessionRef.current === session) broadcastLanSnapshot(roll);
+        });
+      }
+      if (event.type === 'action' && event.action.type === 'roll') pending.roll = { player: event.player, dice: event.action.dice };
+    });
+    broadcastLanSnapshot();
+  };
+
+  // Take over authority from the last mirrored snapshot; the old host's seats wait for it under its member id
+  const becomeLanHost = (room: LanRoom, previous: string | null) => {
+    const session = sessionRef.current;
+    if (!session) {
+      // Nothing was dealt yet, so there is nothing to carry on
+      resetAll();
+      setLanStatus('The host left before the game started');
+      return;
+    }
+    const players = session.getPlayers();
+    const seats = room.seats.map((id, i) => (id === room.memberId ? null : id === null && previous && !players[i].cpu ? previous : id));
+    setLanRoom({ ...room, role: 'host', seats });
+    setLanClock(null); // the clock stayed with the old host
+    seatCpuPlayers(session);
+    hostLanSession(session);
+    setLanStatus(previous ? 'You are hosting now' : null);
+  };
+
+  // Host: give each new guest device the next free human seat; seats of guests who left come back here
+  const seatLanMembers = (room: LanRoom, members: LanMember[]) => {
+    const present = new Set(members.map((m) => m.id));
+    const count = phase === 'SETUP' ? playerCount : room.seats.length;
+    const seats = Array.from({ length: count }, (_, i) => {
+      const id = room.seats[i];
+      return id && present.has(id) ? id : null;
+    });
+    const names = [...customNames];
+    if (phase === 'SETUP') {
+      for (const member of members) {
+        if (member.spectator || seats.includes(member.id)) continue;
+        const free = seats.findIndex((id, i) => i > 0 && id === null && !cpuSeats[i]);
+        if (free === -1) break;
+        seats[free] = member.id;
+        names[free] = member.name;
+      }
+      setCustomNames(names);
+    }
+    setLanRoom({ ...room, members, seats });
+    if (phase !== 'SETUP') broadcastLanSnapshot();
+  };
+
+  // Host: a guest asked to act; only the device playing the current seat may
+  const applyLanIntent = (room: LanRoom, from: string, intent: LanIntent) => {
+    const session = sessionRef.current;
+    if (!session || phase !== 'PLAYING' || room.seats[activePlayer] !== from) return;
+    if (intent.type === 'roll') {
+      performRoll();
+    } else if (intent.type === 'commitScore') {
+      commitCategory(intent.category);
+    } else if (gameState && !isRolling && gameState.rollsLeft < 3) {
+      const engine = session.getActiveEngine();
+      session.toggleHold(intent.index);
+      const s = engine.getGameState();
+      setGameState(s);
+      setPotentialScores(computePotentialScores(engine, s));
+    }
+  };
+
+  // Guest or spectator: mirror the host's game
+  const applyLanSnapshot = (room: LanRoom, snapshot: LanSnapshot) => {
+    if (snapshot.seq <= lanSeqRef.current) return; // already shown, or overtaken
+    let session: GameSession;
+    try {
+      session = GameSession.deserialize(snapshot.session);
+    } catch (e) {
+      console.error(e);
+      return;
+    }
+    lanSeqRef.current = snapshot.seq;
+    const starting = phase === 'SETUP';
+    cpuAgentsRef.current = [];
+    setLanRoom({ ...room, seats: snapshot.seats });
+    const hostClock = snapshot.clock;
+    setLanClock(hostClock ? { clock: TurnClock.follow(hostClock.settings, hostClock.remaining, hostClock.running), running: hostClock.running } : null);
+    if (session.getActivePlayer() !== activePlayer) setMobileScorecardOpen(false);
+    const s = showSession(session, snapshot.board);
+
+    const roll = snapshot.roll;
+    const showDice = () => {
+      if (roll) {
+        setIsRolling(true);
+        void rollSound.play();
+        arenaRef.current?.rollToResult(roll.dice, { chaosMs: 1200 });
+      } else if (s.rollsLeft === 3) {
+        arenaRef.current?.reset();
+      } else if (!isRolling) {
+        arenaRef.current?.forceResult(s.diceValues);
+      }
+    };
+    // On the first snapshot the arena mounts with this render
+    if (starting) setTimeout(showDice, 0);
+    else showDice();
+  };
+
+  const handleLanMessage = (message: LanEvent) => {
+    const room = lanRoomRef.current;
+    switch (message.type) {
+      case 'created':
+        saveLanSeat({ url: lanClientRef.current!.url, code: message.code, token: message.token });
+        setLanRoom({ role: 'host', code: message.code, memberId: message.memberId, members: [], seats: [] });
+        return;
+      case 'joined': {
+        lanRejoiningRef.current = false;
+        saveLanSeat({ url: lanClientRef.current!.url, code: message.code, token: message.token });
+        const role = message.hostId === message.memberId ? 'host' : message.spectator ? 'spectator' : 'guest';
+        if (room?.memberId === message.memberId) {
+          // Back after a drop with the game still on screen
+          setLanRoom({ ...room, role });
+          setLanStatus(null);
+          if (role === 'host') broadcastLanSnapshot(); // anything played here while offline
+          else lanSeqRef.current = 0; // take whatever the current host has
+          return;
+        }
+        lanSeqRef.current = 0;
+        setLanRoom({ role, code: message.code, memberId: message.memberId, members: [], seats: [] });
+        setLanStatus(`${role === 'spectator' ? 'Watching' : 'Joined'} ${message.host}'s game`);
+        return;
+      }
+      case 'members':
+        if (room?.role === 'host') seatLanMembers(room, message.members);
+        else if (room) setLanRoom({ ...room, members: message.members });
+        return;
+      case 'host':
+        if (!room) return;
+        if (message.memberId === room.memberId) becomeLanHost(room, message.previous);
+        else setLanStatus(`${message.name} is hosting now`);
+        return;
+      case 'intent':
+        if (room?.role === 'host') applyLanIntent(room, message.from, message.intent);
+        return;
+      case 'snapshot':
+        if (!room) return;
+        if (room.role !== 'host') {
+          applyLanSnapshot(room, message.snapshot);
+        } else if (!sessionRef.current) {
+          // A reloaded host picks the game up from the relay's copy
+          applyLanSnapshot(room, message.snapshot);
+          becomeLanHost(lanRoomRef.current!, null);
+        }
+        return;
+      case 'closed':
+        if (room && room.role !== 'host') resetAll();
+        else leaveLanGame();
+        setLanStatus(message.reason);
+        return;
+      case 'lost':
+        // Keep the game on screen and keep trying; the seat is held for this tab
+        setLanOnline(false);
+        setLanStatus('Connection lost, reconnecting…');
+        return;
+      case 'error':
+        if (lanRejoiningRef.current) {
+          // The room is gone or no longer holds this seat
+          if (room && room.role !== 'host') resetAll();
+          else leaveLanGame();
+        }
+        setLanStatus(message.message);
+        return;
+    }
+  };
+  lanMessageRef.current = handleLanMessage;
+
+  // Retry a dropped connection now and then, and straight away when a locked phone wakes up
+  useEffect(() => {
+    if (!lanRoom || lanOnline) return;
+    const retry = () => void rejoinLanGame();
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') retry();
+    };
+    retry();
+    const id = window.setInterval(retry, LAN_RETRY_MS);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      window.clearInterval(id);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lanRoom, lanOnline]);
+
+  // Show replay frame `index`; stepping forward onto a roll re-animates it, anything else snaps
+  const showReplayFrame = (r: GameReplay, index: number, animate: boolean) => {
+    const frame = r.getFrame(index);
+    const player = frame?.player ?? 0;
+    const s = r.statesAt(index)[player];
+    setReplayIndex(index);
+    setActivePlayer(player);
+    setGameState(s);
+    setPotentialScores({} as Record<ScoreCategory, number>);
+    setIsRolling(false);
+
+    if (animate && frame?.action.type === 'roll') {
+      setIsRolling(true);
+      void rollSound.play();
+      arenaRef.current?.rollToResult(frame.action.dice, { chaosMs: 900 });
+      return;
+    }
+    // A commit leaves the scored dice on the table rather than the next turn's blank roll
+    const dice = frame?.action.type === 'commitScore' ? r.statesAt(index - 1)[player].diceValues : s.diceValues;
+    if (s.rollsLeft === 3 && frame?.action.type !== 'commitScore') arenaRef.current?.reset();
+    else arenaRef.current?.forceResult(dice);
+  };
+
+  const startReplay = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const r = GameReplay.fromEngines(session.getEngines());
+    if (r.length === 0) return;
+    setReplay(r);
+    setReplayPlaying(true);
+    setShowCelebration(false);
+    setShowNancyCelebration(false);
+    setMobileScorecardOpen(false);
+    setPhase('REPLAY');
+    showReplayFrame(r, -1, false);
+  };
+
+  const stepReplay = (delta: number) => {
+    if (!replay) return;
+    setReplayPlaying(false);
+    showReplayFrame(replay, Math.max(-1, Math.min(replay.length - 1, replayIndex + delta)), delta === 1);
+  };
+
+  const scrubReplay = (index: number) => {
+    if (!replay) return;
+    setReplayPlaying(false);
+    showReplayFrame(replay, index, false);
+  };
+
+  const toggleReplayPlaying = () => {
+    if (!replay) return;
+    // Playing from the end starts over
+    if (!replayPlaying && replayIndex >= replay.length - 1) showReplayFrame(replay, -1, false);
+    setReplayPlaying(!replayPlaying);
+  };
+
+  const exitReplay = () => {
+    setReplay(null);
+    setReplayPlaying(false);
+    setIsRolling(false);
+    restoreTurn();
+  };
+
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
       const t = e.target as HTMLElement | null;
@@ -480,8 +1283,10 @@ export default function Page() {
   }, [isDev, devPanelOpen, gameState]);
 
   useEffect(() => {
-    if (!enginesRef.current.length) return;
-    const engine = enginesRef.current[activePlayer];
+    const session = sessionRef.current;
+    if (!session) return;
+    if (phase === 'REPLAY') return; // replay frames set the shown state themselves
+    const engine = session.getEngine(activePlayer);
     const s = engine.getGameState();
     setGameState(s);
     setPotentialScores(s.rollsLeft === 3 ? ({} as any) : computePotentialScores(engine, s));
@@ -489,14 +1294,258 @@ export default function Page() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activePlayer]);
 
-  const engineStates = useMemo(() => enginesRef.current.map((e) => e.getGameState()), [activePlayer, phase, gameState]);
+  // Drive computer seats: one visible step at a time, waiting for the dice to settle in between
+  useEffect(() => {
+    if (!isCpuTurn || !gameState || isRolling || gameState.isGameOver) return;
+    if (lanRoom && lanRoom.role !== 'host') return; // the host's device plays its computer seats
+    const agent = cpuAgentsRef.current[activePlayer];
+    const session = sessionRef.current;
+    if (!agent || !session) return;
+    const engine = session.getEngine(activePlayer);
+
+    const step = agent.planStep();
+    const isHold = step.type === 'hold';
+    const id = window.setTimeout(() => {
+      setCpuMessage(step.message);
+      if (step.type === 'roll') {
+        performRoll();
+      } else if (step.type === 'score') {
+        commitCategory(step.category);
+      } else {
+        // Toggle one die per tick so the holds are visible
+        const idx = step.holds.findIndex((h, i) => h !== gameState.heldDice[i]);
+        if (idx === -1) return;
+        session.toggleHold(idx);
+        const s = engine.getGameState();
+        setGameState(s);
+        setPotentialScores(computePotentialScores(engine, s));
+      }
+    }, isHold ? CPU_HOLD_MS : CPU_STEP_MS);
+
+    return () => window.clearTimeout(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isCpuTurn, activePlayer, gameState, isRolling, lanRoom]);
+
+  // Replay playback: advance one recorded action at a time, letting each roll finish first
+  useEffect(() => {
+    if (phase !== 'REPLAY' || !replay || !replayPlaying || isRolling) return;
+    if (replayIndex >= replay.length - 1) return;
+    const id = window.setTimeout(() => showReplayFrame(replay, replayIndex + 1, true), REPLAY_STEP_MS);
+    return () => window.clearTimeout(id);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase, replay, replayPlaying, replayIndex, isRolling]);
+
+  const engineStates = useMemo(
+    () => (phase === 'REPLAY' && replay ? replay.statesAt(replayIndex) : (sessionRef.current?.getEngines() ?? []).map((e) => e.getGameState())),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [activePlayer, phase, gameState, replay, replayIndex]
+  );
   const scorecards = engineStates.map((s) => s.scorecard);
   const totals = engineStates.map((s) => s.totalScore);
   const yahtzeeBonuses = engineStates.map((s) => s.yahtzeeBonus);
+  const upperSubtotals = engineStates.map((s) => s.upperSubtotal);
+  const upperBonuses = engineStates.map((s) => s.upperBonus);
+  const lowerTotals = engineStates.map((s) => s.lowerTotal);
   const names = customNames;
+  const legalCategories = useMemo(
+    () => (gameState && sessionRef.current ? sessionRef.current.getEngine(activePlayer).getLegalCategories(gameState.diceValues) : []),
+    [activePlayer, gameState]
+  );
+
+  // Recomputed on every hold toggle, since handleDieClick publishes a fresh gameState
+  const odds = useMemo(
+    () => (oddsOpen && gameState && !isRolling && gameState.rollsLeft < 3
+      ? computeCategoryOdds(ruleSet, gameState.diceValues, gameState.heldDice, gameState.rollsLeft, gameState.scorecard)
+      : null),
+    [oddsOpen, gameState, isRolling, ruleSet]
+  );
+
+  // Spectators follow the running order of the table
+  const isSpectator = lanRoom?.role === 'spectator';
+  const liveStandings = useMemo(
+    () => (isSpectator && sessionRef.current ? sessionRef.current.getStandings() : []),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [isSpectator, gameState, activePlayer]
+  );
+  const standingsRibbon = isSpectator && phase !== 'REPLAY' && liveStandings.length > 0 ? (
+    <StandingsRibbon standings={liveStandings} activePlayer={activePlayer} colors={playerDiceColors} />
+  ) : null;
+
+  // Game links: once this device's turn is in, show the link for whoever plays next
+  const turnLinkPanel = correspondence?.turnPlayed && !isCpuTurn && (isRemoteTurn || phase === 'GAME_OVER') ? (
+    <TurnLinkPanel link={correspondence.link} nextPlayer={phase === 'GAME_OVER' ? null : names[activePlayer]} />
+  ) : null;
+
+  // File a finished game in the history, send it to the leaderboard and count it in the stats of the profiles that played it, once
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (phase !== 'GAME_OVER' || !session || recordedSessionRef.current === session) return;
+    recordedSessionRef.current = session;
+    void saveMatch(matchFromSession(session, selectedBoard, seatProfiles));
+    if (!seedTyped) void submitScores(session);
+    if (!seatProfiles.some((id) => id)) return;
+    const standings = session.getStandings();
+    updateProfiles(profiles.map((profile) => {
+      const player = seatProfiles.indexOf(profile.id);
+      if (player < 0) return profile;
+      return recordGame(profile, {
+        state: session.getEngine(player).getGameState(),
+        playerCount: session.getPlayerCount(),
+        place: standings.find((s) => s.player === player)!.place,
+      });
+    }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [phase]);
+
+  // A badge earned at the table: announce it (unless the seat's profile has it from an earlier game) and keep it on the profile
+  achievementUnlockRef.current = (player: number, id: AchievementId) => {
+    const profileId = seatProfiles[player] ?? null;
+    if (profiles.find((p) => p.id === profileId)?.achievements?.[id]) return;
+    pendingAchievementsRef.current.push({ key: ++achievementKeyRef.current, player: names[player] ?? `Player ${player + 1}`, id });
+    if (!profileId) return;
+    // Several badges can land in one commit, so build on the latest list rather than this render's
+    setProfiles((current) => {
+      const next = current.map((p) => (p.id === profileId ? unlockAchievement(p, id) : p));
+      saveProfiles(next);
+      return next;
+    });
+  };
+
+  // Time limits: the clock follows the turn and only runs while a person can act on it,
+  // so computer seats, dice in the air and a hidden tab don't cost anyone time
+  const clockRunning = !!clock && phase === 'PLAYING' && !isCpuTurn && !isRolling && !tabHidden && !gameState?.isGameOver;
+
+  useEffect(() => {
+    const onVisibility = () => setTabHidden(document.visibilityState === 'hidden');
+    document.addEventListener('visibilitychange', onVisibility);
+    return () => document.removeEventListener('visibilitychange', onVisibility);
+  }, []);
+
+  useEffect(() => {
+    clock?.startTurn(activePlayer);
+  }, [clock, activePlayer, gameState?.currentTurn]);
+
+  useEffect(() => {
+    clock?.setRunning(clockRunning);
+    // Guests count down from the host's snapshots; tell them whenever the clock starts, stops or changes hands.
+    // Not while dice are in the air: the roll's own snapshot is already on its way to be animated
+    if (clock && lanRoomRef.current?.role === 'host' && !isRolling) broadcastLanSnapshot();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clock, clockRunning, activePlayer, gameState?.currentTurn]);
+
+  // LAN guests: the copy pauses while dice are in the air, as the host's does
+  const lanClockRunning = !!lanClock?.running && phase === 'PLAYING' && !isRolling;
+  useEffect(() => {
+    lanClock?.clock.setRunning(lanClockRunning);
+  }, [lanClock, lanClockRunning]);
+
+  const clockTicking = clockRunning || lanClockRunning;
+  useEffect(() => {
+    if (!clockTicking) return;
+    const id = window.setInterval(() => setClockTick((t) => t + 1), CLOCK_TICK_MS);
+    return () => window.clearInterval(id);
+  }, [clockTicking]);
+
+  // Out of time: the session scores the turn as it stands, then play moves on as after any commit
+  const handleClockExpired = () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    const player = session.getActivePlayer();
+    let category: ScoreCategory;
+    try {
+      category = session.autoCommit();
+    } catch (e) {
+      console.error(e);
+      return;
+    }
+    const score = session.getEngine(player).getGameState().scorecard[category] ?? 0;
+    const label = ruleSet.categories.find((c) => c.id === category)?.label ?? category;
+    setClockNote(`⏱ Time's up! ${names[player]} scored ${score} in ${label}`);
+    finishTurn();
+  };
+
+  useEffect(() => {
+    if (clockRunning && clock?.isExpired()) handleClockExpired();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clockTick, clockRunning]);
+
+  useEffect(() => {
+    if (!clockNote) return;
+    const id = window.setTimeout(() => setClockNote(null), CLOCK_NOTE_MS);
+    return () => window.clearTimeout(id);
+  }, [clockNote]);
+
+  // Shown by the roll button: the time left this turn (or in the game, on a chess clock)
+  const shownClock = clock ?? lanClock?.clock ?? null;
+  const clockRemaining = shownClock && phase === 'PLAYING' && !isCpuTurn ? shownClock.getRemaining() : null;
+  const clockBadge = clockRemaining !== null ? (
+    <div
+      className={`px-3 py-1 rounded-full text-xs font-bold border tabular-nums ${clockRemaining <= CLOCK_WARN_MS ? 'bg-red-600/80 text-white border-red-300' : 'bg-black/60 text-white border-white/20'}`}
+      title={shownClock!.getSettings().mode === 'chess' ? `${names[activePlayer]}'s time for the rest of the game` : 'Time left this turn'}
+    >
+      ⏱ {formatClock(clockRemaining)}{clockTicking ? '' : ' ⏸'}
+    </div>
+  ) : null;
+
+  const hintsOn = phase === 'PLAYING' && !isCpuTurn && !isRemoteTurn && !!hintPlayers[activePlayer];
+  const hint = useMemo<Hint | null>(
+    () => (hintsOn && gameState && !isRolling && sessionRef.current ? computeHint(sessionRef.current.getEngine(activePlayer)) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [hintsOn, activePlayer, gameState, isRolling, solverVersion]
+  );
 
-  const canInteractDice = !!gameState && !isRolling && gameState.rollsLeft < 3;
-  const canSelectCategory = !!gameState && !isRolling && gameState.rollsLeft < 3 && gameState.rollsLeft >= 0;
+  const toggleHints = () => {
+    const next = [...hintPlayers];
+    next[activePlayer] = !next[activePlayer];
+    setHintPlayers(next);
+    if (next[activePlayer] && ruleSet.id === 'classic') {
+      YahtzeeSolver.loadShared().then((solver) => solver && setSolverVersion((v) => v + 1));
+    }
+  };
+
+  // One-line summary of the hold advice
+  const hintText = (() => {
+    if (!hint) return null;
+    const unit = hint.basis === 'final' ? 'expected final' : 'expected this turn';
+    if (!hint.holds || hint.holdValue === null) return 'No rolls left: pick the highlighted box';
+    const kept = gameState!.diceValues.filter((_, i) => hint.holds![i]);
+    const advice = hint.holds.every((h) => h) ? 'Stop and score' : kept.length ? `Keep ${kept.join('-')}` : 'Reroll everything';
+    const diff = (hint.currentHoldValue ?? hint.holdValue) - hint.holdValue;
+    return `${advice} · ${unit} ${hint.holdValue.toFixed(1)}${diff < -0.05 ? ` (your hold ${diff.toFixed(1)})` : ''}`;
+  })();
+
+  // What the current replay frame shows
+  const replayLabel = (() => {
+    const frame = replay?.getFrame(replayIndex);
+    if (!replay || !frame) return 'Start of the game';
+    const name = names[frame.player] || `Player ${frame.player + 1}`;
+    const after = replay.statesAt(replayIndex)[frame.player];
+    const { action } = frame;
+    if (action.type === 'roll') return `Turn ${frame.turn} · ${name} rolls ${action.dice.join('-')}`;
+    if (action.type === 'toggleHold') {
+      const die = after.diceValues[action.index];
+      return `Turn ${frame.turn} · ${name} ${after.heldDice[action.index] ? 'holds' : 'releases'} a ${die}`;
+    }
+    const label = ruleSet.categories.find((c) => c.id === action.category)?.label ?? action.category;
+    return `Turn ${frame.turn} · ${name} scores ${after.scorecard[action.category] ?? 0} in ${label}`;
+  })();
+
+  const replayControls = replay && (
+    <ReplayControls
+      label={replayLabel}
+      index={replayIndex}
+      length={replay.length}
+      isPlaying={replayPlaying}
+      onTogglePlay={toggleReplayPlaying}
+      onStep={stepReplay}
+      onScrub={scrubReplay}
+      onExit={exitReplay}
+      className="pointer-events-auto w-full"
+    />
+  );
+
+  const canInteractDice = !!gameState && !isRolling && !isCpuTurn && !isRemoteTurn && !isReplay && gameState.rollsLeft < 3;
+  const canSelectCategory = !!gameState && !isRolling && !isCpuTurn && !isRemoteTurn && !isReplay && gameState.rollsLeft < 3 && gameState.rollsLeft >= 0;
 
   const [imgInfo, setImgInfo] = useState<ImgInfo | null>(null);
   useEffect(() => {
@@ -515,7 +1564,10 @@ export default function Page() {
     if (typeof window !== 'undefined') {
       const q = new URLSearchParams(window.location.search);
       if (q.get('debugLayout') === '1') setShowLayoutDebug(true);
+      const link = q.get(CORRESPONDENCE_PARAM);
+      if (link) openCorrespondence(link);
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
   const handleDownload = async () => {
@@ -819,7 +1871,17 @@ export default function Page() {
               SARZEE
             </h1>
 
-            {setupStep === 'BOARD' && (
+            {lanRoom && lanRoom.role !== 'host' && (
+              <div className="flex flex-col items-center gap-3 mt-6" style={{ color: themeColors.text }}>
+                <div className="text-xl font-medium tracking-wide">Room {lanRoom.code}</div>
+                <div className="text-sm opacity-80">{lanStatus} · waiting for the host to start…</div>
+                <button onClick={resetAll} className="text-sm underline" style={{ color: themeColors.accent + 'cc' }}>
+                  Leave
+                </button>
+              </div>
+            )}
+
+            {setupStep === 'BOARD' && (!lanRoom || lanRoom.role === 'host') && (
               <>
                 <div className="text-xl mb-10 font-medium tracking-wide" style={{ color: themeColors.text }}>
                   Choose your board
@@ -858,9 +1920,26 @@ export default function Page() {
                     ))}
                   </select>
                 </div>
+                {profiles.some((p) => p.favoriteBoard) && (
+                  <div className="flex flex-wrap justify-center gap-2 -mt-4 mb-8 text-sm" style={{ color: themeColors.text }}>
+                    {boardOptions.filter((board) => profiles.some((p) => p.favoriteBoard === board.id)).map((board) => (
+                      <button
+                        key={board.id}
+                        onClick={() => selectBoard(board.id)}
+                        className="rounded-full px-3 py-1 border-2"
+                        style={{
+                          backgroundColor: selectedBoard === board.id ? themeColors.accent : themeColors.bgAlpha,
+                          borderColor: themeColors.borderAlpha,
+                        }}
+                      >
+                        ★ {board.name}: {profiles.filter((p) => p.favoriteBoard === board.id).map((p) => p.name).join(', ')}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <div className="flex justify-center">
                   <button
-                    onClick={() => setSetupStep('COUNT')}
+                    onClick={() => setSetupStep('RULES')}
                     className="px-8 py-4 font-bold rounded-xl shadow-xl text-lg transition-all transform hover:scale-105 active:scale-95 border-2"
                     style={{
                       background: `linear-gradient(to bottom, ${themeColors.buttonGradientFrom}, ${themeColors.buttonGradientTo})`,
@@ -880,6 +1959,152 @@ export default function Page() {
                     Continue
                   </button>
                 </div>
+                {savedGame && (
+                  <div className="flex flex-col items-center mt-6 gap-1">
+                    <button
+                      onClick={resumeGame}
+                      className="px-8 py-3 font-bold rounded-xl shadow-xl text-lg transition-all transform hover:scale-105 active:scale-95 border-2"
+                      style={{
+                        backgroundColor: themeColors.bgAlpha,
+                        color: themeColors.text,
+                        borderColor: themeColors.accent,
+                      }}
+                    >
+                      Resume game
+                    </button>
+                    <div className="text-sm" style={{ color: themeColors.text + 'cc' }}>
+                      {savedGame.customNames.join(', ')} · {getRuleSet(savedGame.engines[0].ruleSetId).name} · turn{' '}
+                      {savedGame.engines[savedGame.activePlayer].state.currentTurn} · saved {new Date(savedGame.savedAt).toLocaleString()}
+                    </div>
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center justify-center gap-2 mt-8 text-sm" style={{ color: themeColors.text }}>
+                  <span className="opacity-80">Join a LAN game:</span>
+                  <input
+                    value={joinName}
+                    onChange={(e) => setJoinName(e.target.value)}
+                    placeholder="Your name"
+                    maxLength={24}
+                    className="w-32 px-3 py-1 rounded-lg focus:outline-none"
+                    style={{ backgroundColor: themeColors.bgAlpha, border: `2px solid ${themeColors.borderAlpha}`, color: themeColors.text }}
+                  />
+                  <input
+                    value={joinCode}
+                    onChange={(e) => setJoinCode(normalizeRoomCode(e.target.value))}
+                    placeholder="CODE"
+                    className="w-20 px-3 py-1 rounded-lg uppercase tracking-widest focus:outline-none"
+                    style={{ backgroundColor: themeColors.bgAlpha, border: `2px solid ${themeColors.borderAlpha}`, color: themeColors.text }}
+                  />
+                  <button
+                    onClick={() => joinLanGame(false)}
+                    disabled={!joinCode}
+                    className="rounded-full px-4 py-1 border-2 font-bold disabled:opacity-40"
+                    style={{ backgroundColor: themeColors.bgAlpha, borderColor: themeColors.accent }}
+                  >
+                    Join
+                  </button>
+                  <button
+                    onClick={() => joinLanGame(true)}
+                    disabled={!joinCode}
+                    className="rounded-full px-4 py-1 border-2 disabled:opacity-40"
+                    style={{ backgroundColor: themeColors.bgAlpha, borderColor: themeColors.borderAlpha }}
+                    title="Follow the game without playing, e.g. on a big screen"
+                  >
+                    Watch
+                  </button>
+                </div>
+                {linkError && (
+                  <div className="text-sm mt-4 text-red-300">{linkError}</div>
+                )}
+                <div className="flex flex-wrap justify-center gap-x-6 gap-y-2 mt-4 text-sm" style={{ color: themeColors.accent + 'cc' }}>
+                  <button onClick={() => setProfilesOpen(true)} className="underline">
+                    👤 Player profiles{profiles.length > 0 ? ` (${profiles.length})` : ''}
+                  </button>
+                  <button onClick={() => loadMatches().then(setHistory)} className="underline">
+                    📜 Match history
+                  </button>
+                  <button onClick={() => setTrophiesOpen(true)} className="underline">
+                    🏆 Trophies
+                  </button>
+                  <Link href="/stats" className="underline">
+                    📊 Stats
+                  </Link>
+                  <Link href="/leaderboard" className="underline">
+                    🏅 Leaderboard
+                  </Link>
+                </div>
+                <ScorecardModal isOpen={history !== null} onClose={() => setHistory(null)}>
+                  <HistoryPanel
+                    matches={history ?? []}
+                    boards={boardOptions}
+                    onDelete={(id) => {
+                      setHistory((matches) => matches && matches.filter((m) => m.id !== id));
+                      void deleteMatch(id);
+                    }}
+                  />
+                </ScorecardModal>
+                <ScorecardModal isOpen={trophiesOpen} onClose={() => setTrophiesOpen(false)}>
+                  <TrophyCase profiles={profiles} />
+                </ScorecardModal>
+                <ScorecardModal isOpen={profilesOpen} onClose={() => setProfilesOpen(false)}>
+                  <ProfilesPanel
+                    profiles={profiles}
+                    boards={boardOptions}
+                    onUpdate={(profile) => updateProfiles(profiles.map((p) => (p.id === profile.id ? profile : p)))}
+                    onDelete={(id) => updateProfiles(profiles.filter((p) => p.id !== id))}
+                  />
+                </ScorecardModal>
+                {storedLanSeat && (
+                  <button onClick={rejoinLanGame} className="text-sm underline mt-2" style={{ color: themeColors.accent + 'cc' }}>
+                    Rejoin room {storedLanSeat.code}
+                  </button>
+                )}
+                {lanStatus && (
+                  <div className="text-sm mt-2" style={{ color: themeColors.text + 'cc' }}>{lanStatus}</div>
+                )}
+              </>
+            )}
+
+            {setupStep === 'RULES' && (
+              <>
+                <div className="text-xl mb-10 font-medium tracking-wide" style={{ color: themeColors.text }}>
+                  Which rules are we playing?
+                </div>
+                <div className="flex flex-col gap-4 mb-8 max-w-xl mx-auto">
+                  {Object.values(RULE_SETS).map((rules) => (
+                    <button
+                      key={rules.id}
+                      onClick={() => selectRuleSet(rules.id)}
+                      className="px-6 py-4 rounded-xl shadow-xl text-left transition-all transform hover:scale-105 active:scale-95 border-2"
+                      style={{
+                        background: `linear-gradient(to bottom, ${themeColors.buttonGradientFrom}, ${themeColors.buttonGradientTo})`,
+                        color: themeColors.text,
+                        borderColor: selectedRuleSet === rules.id ? themeColors.focus : themeColors.buttonBorder,
+                        boxShadow: '0 8px 16px rgba(0, 0, 0, 0.4), inset 0 1px 0 rgba(255, 255, 255, 0.2)',
+                      }}
+                    >
+                      <div className="text-xl font-bold">{rules.name}</div>
+                      <div className="text-sm opacity-80">{rules.description}</div>
+                    </button>
+                  ))}
+                </div>
+                <div className="flex justify-center gap-4">
+                  <button
+                    onClick={() => setSetupStep('BOARD')}
+                    className="text-sm underline transition-colors"
+                    style={{
+                      color: themeColors.accent + 'cc',
+                    }}
+                    onMouseEnter={(e) => {
+                      (e.target as HTMLButtonElement).style.color = themeColors.accentHover;
+                    }}
+                    onMouseLeave={(e) => {
+                      (e.target as HTMLButtonElement).style.color = themeColors.accent + 'cc';
+                    }}
+                  >
+                    ← Back
+                  </button>
+                </div>
               </>
             )}
 
@@ -888,8 +2113,8 @@ export default function Page() {
                 <div className="text-xl mb-10 font-medium tracking-wide" style={{ color: themeColors.text }}>
                   How many players?
                 </div>
-                <div className="flex gap-6 justify-center mb-8">
-                  {[1, 2, 3, 4].map((n) => (
+                <div className="flex flex-wrap gap-6 justify-center mb-8 max-w-md mx-auto">
+                  {Array.from({ length: MAX_PLAYERS }, (_, i) => i + 1).map((n) => (
                     <button
                       key={n}
                       onClick={() => selectPlayerCount(n)}
@@ -921,7 +2146,7 @@ export default function Page() {
                 <div className="text-xl mb-6 font-medium tracking-wide" style={{ color: themeColors.text }}>
                   Enter player names & choose dice colors
                 </div>
-                <div className="flex flex-col gap-5 mb-8 max-w-2xl mx-auto">
+                <div className="flex flex-col gap-5 mb-8 max-w-2xl mx-auto max-h-[45vh] overflow-y-auto">
                         {customNames.map((name, idx) => {
                           const playerColor = playerDiceColors[idx] || '#FFFFFF';
                           // Get dice color options based on selected board
@@ -985,7 +2210,8 @@ export default function Page() {
                           ];
                       }
                     };
-                    const diceColorOptions = getDiceColorOptions(selectedBoard);
+                    const boardColorOptions = getDiceColorOptions(selectedBoard);
+                    const diceColorOptions = playerCount > boardColorOptions.length ? [...boardColorOptions, ...EXTRA_DICE_COLORS] : boardColorOptions;
                     return (
                       <div key={idx} className="flex items-center gap-3">
                         <input
@@ -994,6 +2220,7 @@ export default function Page() {
                             const next = [...customNames];
                             next[idx] = e.target.value;
                             setCustomNames(next);
+                            if (seatProfiles[idx]) setSeatProfile(idx, null); // someone else now
                           }}
                           className="flex-1 rounded-lg px-4 py-3 text-center text-lg focus:outline-none transition-colors"
                           style={{
@@ -1013,7 +2240,61 @@ export default function Page() {
                           placeholder={`Player ${idx + 1}`}
                           maxLength={10}
                         />
-                        <div className="flex gap-2">
+                        {!cpuSeats[idx] && (
+                          <select
+                            value={seatProfiles[idx] ?? ''}
+                            onChange={(e) => pickSeatProfile(idx, e.target.value)}
+                            className="rounded-lg px-2 py-3 text-sm border-2 max-w-[9rem]"
+                            style={{
+                              backgroundColor: seatProfiles[idx] ? themeColors.accent : themeColors.bgAlpha,
+                              borderColor: themeColors.borderAlpha,
+                              color: themeColors.text,
+                            }}
+                            title="Play as a saved profile to keep lifetime stats"
+                          >
+                            <option value="">No profile</option>
+                            {profiles.map((profile) => (
+                              <option key={profile.id} value={profile.id} disabled={seatProfiles.includes(profile.id) && seatProfiles[idx] !== profile.id}>
+                                👤 {profile.name}
+                              </option>
+                            ))}
+                            {!seatProfiles[idx] && <option value="new">＋ Save as profile</option>}
+                          </select>
+                        )}
+                        <select
+                          value={cpuSeats[idx]?.difficulty ?? 'human'}
+                          onChange={(e) => setSeatDifficulty(idx, e.target.value === 'human' ? null : (e.target.value as CpuDifficulty))}
+                          className="rounded-lg px-2 py-3 text-sm font-bold border-2"
+                          style={{
+                            backgroundColor: cpuSeats[idx] ? themeColors.accent : themeColors.bgAlpha,
+                            borderColor: themeColors.borderAlpha,
+                            color: themeColors.text,
+                          }}
+                          title="Who plays this seat"
+                        >
+                          <option value="human">👤 Human</option>
+                          {CPU_DIFFICULTIES.map((d) => (
+                            <option key={d.id} value={d.id}>🤖 {d.label}</option>
+                          ))}
+                        </select>
+                        {cpuSeats[idx] && (
+                          <select
+                            value={cpuSeats[idx]!.mistakeRate}
+                            onChange={(e) => setSeatMistakeRate(idx, Number(e.target.value))}
+                            className="rounded-lg px-2 py-3 text-sm border-2"
+                            style={{
+                              backgroundColor: themeColors.bgAlpha,
+                              borderColor: themeColors.borderAlpha,
+                              color: themeColors.text,
+                            }}
+                            title="How often the computer fumbles a decision"
+                          >
+                            {CPU_MISTAKE_RATES.map((m) => (
+                              <option key={m.rate} value={m.rate}>{m.label}</option>
+                            ))}
+                          </select>
+                        )}
+                        <div className="flex flex-wrap gap-2">
                           {diceColorOptions.map((colorOption) => (
                             <button
                               key={colorOption.hex}
@@ -1034,6 +2315,112 @@ export default function Page() {
                     );
                   })}
                 </div>
+                <div className="flex justify-center mb-6">
+                  <input
+                    value={seedInput}
+                    onChange={(e) => setSeedInput(e.target.value.replace(/\D/g, ''))}
+                    placeholder="Dice seed (optional)"
+                    inputMode="numeric"
+                    maxLength={10}
+                    className="rounded-lg px-4 py-2 text-center text-sm focus:outline-none w-56"
+                    style={{
+                      backgroundColor: themeColors.bgAlpha,
+                      border: `2px solid ${themeColors.borderAlpha}`,
+                      color: themeColors.text,
+                    }}
+                    title="Reuse a seed from a finished game to roll exactly the same dice"
+                  />
+                </div>
+                {!byLink && (
+                  <div className="flex justify-center mb-6">
+                    <select
+                      value={CLOCK_PRESETS.findIndex((p) => JSON.stringify(p.settings) === JSON.stringify(clockSettings))}
+                      onChange={(e) => setClockSettings(CLOCK_PRESETS[Number(e.target.value)].settings)}
+                      className="rounded-lg px-4 py-2 text-center text-sm focus:outline-none w-56"
+                      style={{
+                        backgroundColor: themeColors.bgAlpha,
+                        border: `2px solid ${themeColors.borderAlpha}`,
+                        color: themeColors.text,
+                      }}
+                      title="When time runs out, the best box for the dice on the table is scored (or the least valuable one scratched)"
+                    >
+                      {CLOCK_PRESETS.map((preset, i) => (
+                        <option key={preset.label} value={i} className="text-black">
+                          ⏱ {preset.label}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {playerCount > 1 && (
+                  <div className="flex flex-wrap items-center justify-center gap-2 mb-6 text-sm" style={{ color: themeColors.text }}>
+                    <span className="opacity-80">Break ties by:</span>
+                    {TIE_BREAKERS.map((tieBreaker) => {
+                      const order = tieBreakers.indexOf(tieBreaker.id);
+                      return (
+                        <button
+                          key={tieBreaker.id}
+                          onClick={() => toggleTieBreaker(tieBreaker.id)}
+                          className="rounded-full px-3 py-1 border-2 transition-colors"
+                          style={{
+                            backgroundColor: order >= 0 ? themeColors.accent : themeColors.bgAlpha,
+                            borderColor: order >= 0 ? themeColors.focus : themeColors.borderAlpha,
+                          }}
+                          title="Applied in the order picked; players still level share the placing"
+                        >
+                          {order >= 0 ? `${order + 1}. ` : ''}{tieBreaker.label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+                {playerCount > 1 && (
+                  <div className="flex flex-col items-center gap-1 mb-6 text-sm" style={{ color: themeColors.text }}>
+                    {lanRoom?.role === 'host' ? (
+                      <>
+                        <div>
+                          📡 Room code <span className="font-black tracking-widest text-lg">{lanRoom.code}</span>
+                          <button onClick={leaveLanGame} className="ml-3 underline opacity-80">Stop hosting</button>
+                        </div>
+                        <div className="opacity-80">Other devices open this page and join with the code; each takes the next free human seat.</div>
+                        {lanRoom.members.map((member) => {
+                          const seat = lanRoom.seats.indexOf(member.id);
+                          return (
+                            <div key={member.id}>
+                              {member.name}: {member.spectator ? 'watching' : seat >= 0 ? `seat ${seat + 1}` : 'no free seat'}
+                              {member.offline && ' (reconnecting)'}
+                            </div>
+                          );
+                        })}
+                      </>
+                    ) : (
+                      <div className="flex flex-wrap justify-center gap-2">
+                        {!byLink && (
+                          <button
+                            onClick={hostLanGame}
+                            className="rounded-full px-4 py-1 border-2"
+                            style={{ backgroundColor: themeColors.bgAlpha, borderColor: themeColors.borderAlpha }}
+                            title="Let other devices on this network play some of the seats"
+                          >
+                            📡 Host on LAN
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setByLink(!byLink)}
+                          className="rounded-full px-4 py-1 border-2"
+                          style={{
+                            backgroundColor: byLink ? themeColors.accent : themeColors.bgAlpha,
+                            borderColor: byLink ? themeColors.focus : themeColors.borderAlpha,
+                          }}
+                          title="Take turns remotely: each player plays one turn, then sends the game link on"
+                        >
+                          ✉ Play by link{byLink ? ': on' : ''}
+                        </button>
+                      </div>
+                    )}
+                    {lanStatus && <div className="opacity-80">{lanStatus}</div>}
+                  </div>
+                )}
                 <div className="flex justify-center gap-4 mb-6">
                   <button
                     onClick={() => setSetupStep('COUNT')}
@@ -1101,8 +2488,8 @@ export default function Page() {
   if (!gameState) return null;
 
   if (isMobilePortrait && windowSize) {
-    const canRoll = !isRolling && gameState.rollsLeft > 0 && !gameState.isGameOver;
-    const isCategorySelectionPhase = !isRolling && gameState.rollsLeft < 3 && gameState.rollsLeft >= 0;
+    const canRoll = !isRolling && !isCpuTurn && !isRemoteTurn && !isReplay && gameState.rollsLeft > 0 && !gameState.isGameOver;
+    const isCategorySelectionPhase = !isRolling && !isCpuTurn && !isRemoteTurn && !isReplay && gameState.rollsLeft < 3 && gameState.rollsLeft >= 0;
 
     return (
       <div className="fixed inset-0 bg-stone-950 flex flex-col text-white overflow-hidden">
@@ -1125,13 +2512,15 @@ export default function Page() {
               feltAspect={windowSize.w / (windowSize.h * 0.6)}
               showDebugNumbers={isDev && showDieNumbers}
               isMobile={true}
+              diceCount={ruleSet.diceCount}
+              hintedDice={hint?.holds ?? undefined}
             />
           </div>
 
           {/* Mobile HUD Overlay (Turn/Score) */}
           <div className="absolute top-4 left-4 right-4 flex justify-between pointer-events-none z-20">
             <div className="bg-black/50 px-3 py-1 rounded-full text-xs font-bold text-emerald-400 border border-emerald-500/30">
-              Turn {gameState.currentTurn}/13
+              Turn {gameState.currentTurn}/{ruleSet.turns}
             </div>
             <div className="bg-black/50 px-3 py-1 rounded-full text-xs font-bold text-white border border-white/10">
               Total: {totals[activePlayer]}
@@ -1145,11 +2534,41 @@ export default function Page() {
           <div className="text-center">
             <div className="text-stone-400 text-sm uppercase tracking-widest mb-1">Current Player</div>
             <div className="text-2xl font-black text-white">{names[activePlayer]}</div>
+            {isCpuTurn && cpuMessage && (
+              <div className="mt-2 text-sm italic text-amber-300">🤖 {cpuMessage}</div>
+            )}
+            {isRemoteTurn && !correspondence && !(isCpuTurn && cpuMessage) && (
+              <div className="mt-2 text-sm italic text-sky-300">📡 Playing on another device…</div>
+            )}
+            {turnLinkPanel && <div className="mt-3 w-full max-w-sm">{turnLinkPanel}</div>}
+            {!isCpuTurn && !isRemoteTurn && !isReplay && (
+              <button
+                onClick={toggleHints}
+                className={`mt-2 px-3 py-1 rounded-full text-xs font-bold border ${hintsOn ? 'bg-cyan-500/80 text-white border-cyan-300' : 'bg-stone-800 text-stone-400 border-white/10'}`}
+              >
+                💡 Hint {hintsOn ? 'on' : 'off'}
+              </button>
+            )}
+            {hintText && <div className="mt-1 text-xs text-cyan-200">{hintText}</div>}
+            {clockNote && <div className="mt-1 text-xs font-bold text-red-300">{clockNote}</div>}
+            {lanRoom && lanStatus && <div className="mt-1 text-xs text-sky-200">📡 {lanStatus}</div>}
+            {standingsRibbon && <div className="mt-3 flex justify-center">{standingsRibbon}</div>}
           </div>
 
           {/* BIG Buttons */}
           <div className="w-full max-w-sm flex flex-col gap-4">
+            {isReplay && replayControls}
+            {phase === 'GAME_OVER' && (
+              <button
+                onClick={startReplay}
+                className="w-full py-4 rounded-xl bg-stone-800 text-stone-300 font-bold uppercase tracking-wider text-sm border border-white/5 hover:bg-stone-700 active:scale-95"
+              >
+                ▶ Watch Replay
+              </button>
+            )}
+
             {/* Main Roll Action */}
+            {clockBadge && <div className="flex justify-center -mb-2">{clockBadge}</div>}
             <button
               onClick={handleRoll}
               disabled={!canRoll}
@@ -1163,6 +2582,24 @@ export default function Page() {
               {gameState.rollsLeft > 0 ? `ROLL (${gameState.rollsLeft})` : 'PICK SCORE'}
             </button>
 
+            {/* Undo / Redo */}
+            <div className="flex gap-4">
+              <button
+                onClick={handleUndo}
+                disabled={!canUndo}
+                className="flex-1 py-3 rounded-xl bg-stone-800 text-stone-300 font-bold uppercase tracking-wider text-xs border border-white/5 active:scale-95 disabled:opacity-40"
+              >
+                ↶ Undo
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!canRedo}
+                className="flex-1 py-3 rounded-xl bg-stone-800 text-stone-300 font-bold uppercase tracking-wider text-xs border border-white/5 active:scale-95 disabled:opacity-40"
+              >
+                ↷ Redo
+              </button>
+            </div>
+
             {/* Scorecard Toggle */}
             <button
               onClick={() => setMobileScorecardOpen(true)}
@@ -1197,13 +2634,29 @@ export default function Page() {
               ✕
             </button>
             <h2 className="text-center font-black text-xl mb-4">SCORECARD</h2>
+            <ProbabilityPanel
+              ruleSet={ruleSet}
+              odds={odds}
+              scorecard={scorecards[activePlayer] ?? {}}
+              rollsLeft={gameState.rollsLeft}
+              isOpen={oddsOpen}
+              onToggle={() => setOddsOpen((o) => !o)}
+              className="shrink-0"
+            />
             <MultiPlayerScorecard
+              ruleSet={ruleSet}
               playerNames={names}
               scorecards={scorecards}
               yahtzeeBonuses={yahtzeeBonuses}
+              upperSubtotals={upperSubtotals}
+              upperBonuses={upperBonuses}
+              lowerTotals={lowerTotals}
               totals={totals}
               activePlayerIndex={activePlayer}
               potentialScores={potentialScores}
+              legalCategories={legalCategories}
+              hintCategory={hint?.bestCategory}
+              hintImpact={hint?.categoryImpact}
               canSelectCategory={isCategorySelectionPhase}
               onSelectCategory={(cat) => {
                 handleCategorySelect(cat);
@@ -1230,6 +2683,7 @@ export default function Page() {
             </div>
           </div>
         )}
+        <AchievementToasts toasts={achievementToasts} onDismiss={dismissAchievement} />
       </div>
     );
   }
@@ -1285,16 +2739,79 @@ export default function Page() {
             feltAspect={FELT_ASPECT}
             showDebugNumbers={isDev && showDieNumbers}
             isMobile={isMobilePortrait}
+            diceCount={ruleSet.diceCount}
+            hintedDice={hint?.holds ?? undefined}
           />
+          {isCpuTurn && cpuMessage && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 pointer-events-none bg-black/60 px-4 py-1 rounded-full text-sm font-bold text-amber-300 border border-amber-500/30 whitespace-nowrap">
+              🤖 {names[activePlayer]}: {cpuMessage}
+            </div>
+          )}
+          {turnLinkPanel && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-[75] w-[min(32rem,90%)]">{turnLinkPanel}</div>
+          )}
+          {clockNote && (
+            <div className="absolute top-12 left-1/2 -translate-x-1/2 z-20 pointer-events-none bg-black/60 px-4 py-1 rounded-full text-sm font-bold text-red-300 border border-red-500/30 whitespace-nowrap">
+              {clockNote}
+            </div>
+          )}
+          {isRemoteTurn && !correspondence && !(isCpuTurn && cpuMessage) && (
+            <div className="absolute top-3 left-1/2 -translate-x-1/2 z-20 pointer-events-none bg-black/60 px-4 py-1 rounded-full text-sm font-bold text-sky-300 border border-sky-500/30 whitespace-nowrap">
+              📡 Waiting for {names[activePlayer]}…
+            </div>
+          )}
+          {isReplay && (
+            <div className="absolute bottom-3 left-3 right-3 z-20 pointer-events-none">{replayControls}</div>
+          )}
+          {lanRoom && lanStatus && (
+            <div className="absolute top-3 right-3 z-20 pointer-events-none bg-black/60 px-3 py-1 rounded-full text-xs font-bold text-sky-200 border border-sky-500/30">
+              📡 {lanStatus}
+            </div>
+          )}
+          {standingsRibbon && (
+            <div className="absolute bottom-3 left-3 right-3 z-20 flex justify-center pointer-events-none">{standingsRibbon}</div>
+          )}
+          {!isCpuTurn && !isRemoteTurn && !isReplay && (
+            <div className="absolute bottom-3 left-3 right-3 z-20 flex items-center gap-2 pointer-events-none">
+              <button
+                onClick={toggleHints}
+                className={`pointer-events-auto px-3 py-1 rounded-full text-xs font-bold border transition-colors ${hintsOn ? 'bg-cyan-500/80 text-white border-cyan-300' : 'bg-black/50 text-white/70 border-white/20 hover:text-white'}`}
+                title="Show the best hold and box for this player"
+              >
+                💡 Hint {hintsOn ? 'on' : 'off'}
+              </button>
+              <button
+                onClick={handleUndo}
+                disabled={!canUndo}
+                className="pointer-events-auto px-3 py-1 rounded-full text-xs font-bold border bg-black/50 text-white/80 border-white/20 hover:text-white disabled:opacity-40"
+                title="Undo the last hold or score"
+              >
+                ↶ Undo
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={!canRedo}
+                className="pointer-events-auto px-3 py-1 rounded-full text-xs font-bold border bg-black/50 text-white/80 border-white/20 hover:text-white disabled:opacity-40"
+              >
+                ↷ Redo
+              </button>
+              {hintText && (
+                <div className="bg-black/60 px-3 py-1 rounded-full text-xs font-bold text-cyan-200 border border-cyan-500/30 truncate">
+                  {hintText}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* 3. CONTROLS (Bottom Center) */}
         {/* Positioned relative to the stage to scale with it */}
         {/* 3. CONTROLS (Centered at bottom of board) */}
         <div className="absolute bottom-[-10%] left-1/2 -translate-x-1/2 z-30 w-[30.25%] flex justify-center pointer-events-none">
+          {clockBadge && <div className="absolute right-full top-1/3 mr-2">{clockBadge}</div>}
           <button
             onClick={handleRoll}
-            disabled={isRolling || gameState.rollsLeft <= 0 || gameState.isGameOver}
+            disabled={isRolling || isCpuTurn || isRemoteTurn || isReplay || gameState.rollsLeft <= 0 || gameState.isGameOver}
             className="pointer-events-auto active:scale-95 transition-transform disabled:opacity-50 disabled:grayscale origin-bottom"
             style={{
               background: 'transparent',
@@ -1313,6 +2830,20 @@ export default function Page() {
           </button>
         </div>
 
+        {/* Odds overlay, docked to the left of the scorecard rail */}
+        {phase === 'PLAYING' && (
+          <ProbabilityPanel
+            ruleSet={ruleSet}
+            odds={odds}
+            scorecard={scorecards[activePlayer] ?? {}}
+            rollsLeft={gameState.rollsLeft}
+            isOpen={oddsOpen}
+            onToggle={() => setOddsOpen((o) => !o)}
+            className="absolute z-[60] w-[15%] min-w-[200px]"
+            style={{ right: canShowEmbedded ? '27%' : '2%', top: '2%' }}
+          />
+        )}
+
         {/* 4. SCORECARD (Right Rail) */}
         {/* Only visible if element query says we have enough space - show on tablets (md) and up */}
         {canShowEmbedded && (
@@ -1331,12 +2862,19 @@ export default function Page() {
                 )}
 
                 <MultiPlayerScorecard
+                  ruleSet={ruleSet}
                   playerNames={names}
                   scorecards={scorecards}
                   yahtzeeBonuses={yahtzeeBonuses}
+                  upperSubtotals={upperSubtotals}
+                  upperBonuses={upperBonuses}
+                  lowerTotals={lowerTotals}
                   totals={totals}
                   activePlayerIndex={activePlayer}
                   potentialScores={potentialScores}
+                  legalCategories={legalCategories}
+                  hintCategory={hint?.bestCategory}
+                  hintImpact={hint?.categoryImpact}
                   canSelectCategory={canSelectCategory}
                   onSelectCategory={handleCategorySelect}
                   mustPick={gameState.rollsLeft === 0}
@@ -1400,19 +2938,31 @@ export default function Page() {
             </div>
           )
         }
+        <AchievementToasts toasts={achievementToasts} onDismiss={dismissAchievement} />
 
         {/* GAME OVER OVERLAY - Floating messages with board visible */}
         {phase === 'GAME_OVER' && (() => {
-          // Calculate player rankings
-          const playersWithScores = totals.map((score, idx) => ({
-            index: idx,
-            name: names[idx] || `Player ${idx + 1}`,
-            score
-          }));
-          playersWithScores.sort((a, b) => b.score - a.score);
-          const winnerIndex = playersWithScores[0].index;
-          const userRank = playersWithScores.findIndex(p => p.index === activePlayer) + 1;
-          const userPlayer = playersWithScores.find(p => p.index === activePlayer);
+          const standings: Standing[] = sessionRef.current?.getStandings() ?? [];
+          if (standings.length === 0) return null;
+          const nameOf = (standing: Standing) => names[standing.player] || standing.name;
+          const winners = standings.filter((standing) => standing.place === 1);
+          const isShared = (standing: Standing) => standings.some((o) => o !== standing && o.place === standing.place);
+
+          // Only speak to "you" when exactly one human plays on this device; pass-and-play and spectators stay neutral
+          const humans = standings.filter((standing) => !cpuSeats[standing.player] && ownsSeat(standing.player));
+          const you = standings.length > 1 && humans.length === 1 ? humans[0] : null;
+
+          const headline =
+            standings.length === 1 ? 'GAME OVER'
+            : you ? (you.place === 1 ? (isShared(you) ? 'YOU TIED FOR 1ST' : 'YOU WON!') : `YOU CAME ${ordinal(you.place).toUpperCase()}`)
+            : winners.length > 1 ? "IT'S A TIE!"
+            : `${nameOf(winners[0]).toUpperCase()} WINS!`;
+          const tieNote =
+            winners.length > 1 && standings.length > 1
+              ? `${winners.map(nameOf).join(' & ')} share 1st place`
+              : winners[0].decidedBy
+              ? `Decided on ${getTieBreaker(winners[0].decidedBy).label.toLowerCase()}`
+              : null;
 
           return (
             <>
@@ -1420,50 +2970,58 @@ export default function Page() {
               <div className="absolute inset-0 z-[70] flex items-center justify-center pointer-events-none">
                 <div className="pointer-events-auto animate-in fade-in-50 duration-700">
                   <div className="bg-slate-900/95 backdrop-blur-xl p-8 rounded-2xl border-2 border-yellow-500/40 shadow-2xl text-center max-w-lg mx-4">
-                    {/* Trophy for winner */}
-                    {userRank === 1 && (
+                    {/* Trophy when the table has a winner to celebrate */}
+                    {(you ? you.place === 1 : standings.length > 1) && (
                       <div className="text-6xl mb-4 animate-bounce">🏆</div>
                     )}
-                    
-                    <h2 className="text-4xl font-black mb-4 bg-gradient-to-r from-yellow-400 to-yellow-600 bg-clip-text text-transparent">
-                      {userRank === 1 ? 'YOU WON!' : 
-                       userRank === 2 ? 'YOU CAME 2ND' : 
-                       userRank === 3 ? 'YOU CAME 3RD' : 
-                       `YOU CAME ${userRank}TH`}
+
+                    <h2 className="text-4xl font-black mb-2 bg-gradient-to-r from-yellow-400 to-yellow-600 bg-clip-text text-transparent">
+                      {headline}
                     </h2>
-                    
+                    {tieNote && <div className="text-sm text-yellow-200/80 mb-2">{tieNote}</div>}
+
                     {/* Leaderboard / Final Scores */}
-                    <div className="mt-6 space-y-3">
+                    <div className="mt-6 space-y-3 max-h-[50vh] overflow-y-auto">
                       <div className="text-white/70 text-sm uppercase tracking-widest mb-3">Final Scores</div>
-                      {playersWithScores.map((player, rank) => (
+                      {standings.map((standing) => (
                         <div
-                          key={player.index}
+                          key={standing.player}
                           className={`flex items-center justify-between px-4 py-3 rounded-lg transition-all ${
-                            rank === 0
+                            standing.place === 1
                               ? 'bg-yellow-500/20 border-2 border-yellow-500/50 shadow-lg'
-                              : player.index === activePlayer
+                              : standing === you
                               ? 'bg-blue-500/10 border border-blue-500/30'
                               : 'bg-slate-800/50 border border-slate-700/50'
                           }`}
                         >
                           <div className="flex items-center gap-3">
                             <span className="text-2xl font-bold text-white/80">
-                              {rank === 0 ? '🥇' : rank === 1 ? '🥈' : rank === 2 ? '🥉' : `#${rank + 1}`}
+                              {standing.place === 1 ? '🥇' : standing.place === 2 ? '🥈' : standing.place === 3 ? '🥉' : `#${standing.place}`}
                             </span>
                             <span className={`font-bold ${
-                              rank === 0 ? 'text-yellow-400' : player.index === activePlayer ? 'text-blue-400' : 'text-white/80'
+                              standing.place === 1 ? 'text-yellow-400' : standing === you ? 'text-blue-400' : 'text-white/80'
                             }`}>
-                              {player.name}
+                              {nameOf(standing)}
                             </span>
+                            {isShared(standing) && (
+                              <span className="text-[10px] uppercase tracking-wider text-white/60 border border-white/20 rounded px-1">
+                                tied {ordinal(standing.place)}
+                              </span>
+                            )}
                           </div>
                           <span className={`text-xl font-black ${
-                            rank === 0 ? 'text-yellow-400' : 'text-white'
+                            standing.place === 1 ? 'text-yellow-400' : 'text-white'
                           }`}>
-                            {player.score} pts
+                            {standing.score} pts
                           </span>
                         </div>
                       ))}
                     </div>
+                    {gameSeed !== null && (
+                      <div className="mt-4 text-xs text-white/50 font-mono select-all" title="Enter this seed on the setup screen to replay the same dice">
+                        Seed {gameSeed}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1476,6 +3034,12 @@ export default function Page() {
                 >
                   New Game
                 </button>
+                <button
+                  onClick={startReplay}
+                  className="pointer-events-auto ml-4 px-6 py-4 bg-slate-800/90 hover:bg-slate-700 text-white font-bold text-lg rounded-xl shadow-xl transition-all transform hover:scale-105 active:scale-95 border-2 border-white/20"
+                >
+                  ▶ Watch Replay
+                </button>
               </div>
             </>
           );
@@ -1603,17 +3167,25 @@ export default function Page() {
               <div className="bg-slate-900/90 text-white p-4 rounded-xl border border-white/20 shadow-xl shrink-0">
                 <div className="flex items-center justify-between gap-2 helper-exclude-pdf">
                   <button onClick={resetAll} className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-500 hover:to-blue-600 text-white font-bold py-2 px-4 rounded-lg text-sm transition-all">New Game</button>
+                  <button onClick={startReplay} className="bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors">Replay</button>
                   <button onClick={() => handleDownload()} className="bg-slate-700 hover:bg-slate-600 text-white font-semibold py-2 px-4 rounded-lg text-sm transition-colors">Download PDF</button>
                 </div>
               </div>
             )}
             <MultiPlayerScorecard
+              ruleSet={ruleSet}
               playerNames={names}
               scorecards={scorecards}
               yahtzeeBonuses={yahtzeeBonuses}
+              upperSubtotals={upperSubtotals}
+              upperBonuses={upperBonuses}
+              lowerTotals={lowerTotals}
               totals={totals}
               activePlayerIndex={activePlayer}
               potentialScores={potentialScores}
+              legalCategories={legalCategories}
+              hintCategory={hint?.bestCategory}
+              hintImpact={hint?.categoryImpact}
               canSelectCategory={canSelectCategory}
               onSelectCategory={handleCategorySelect}
               mustPick={gameState.rollsLeft === 0}
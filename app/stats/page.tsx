@@ -0,0 +1,155 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import BarChart from '@/components/BarChart';
+import LineChart from '@/components/LineChart';
+import { categoryAverages, headToHead, scoreHistogram, scratchRates, winRateOverTime } from '@/lib/dashboard';
+import { loadMatches, MatchRecord } from '@/lib/matchHistory';
+import { loadProfiles, PlayerProfile } from '@/lib/profiles';
+import { getRuleSet, RULE_SETS } from '@/lib/rulesets';
+import { RuleSetId } from '@/lib/types';
+
+const SCORE_BIN = 25; // points per bar of the score chart
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+const selectClass = 'rounded-lg bg-black/40 px-3 py-1 text-sm border border-white/20';
+
+function Panel({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <section className="rounded-xl bg-black/40 border border-white/10 p-4">
+      <h2 className="text-sm font-bold uppercase tracking-wider text-white/70 mb-3">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+const Empty = () => <div className="text-sm text-white/60">No finished games for this selection yet.</div>;
+
+// Charts over this device's match history; nothing leaves the browser
+export default function StatsPage() {
+  const [matches, setMatches] = useState<MatchRecord[] | null>(null);
+  const [profiles, setProfiles] = useState<PlayerProfile[]>([]);
+  const [ruleSetId, setRuleSetId] = useState<RuleSetId>('classic');
+  const [profileId, setProfileId] = useState('');
+
+  useEffect(() => {
+    loadMatches().then((stored) => {
+      setProfiles(loadProfiles());
+      setMatches(stored);
+    });
+  }, []);
+
+  const ruleSet = getRuleSet(ruleSetId);
+  const label = (category: string) => ruleSet.categories.find((c) => c.id === category)?.label ?? category;
+  const filter = useMemo(() => ({ ruleSetId, profileId: profileId || null }), [ruleSetId, profileId]);
+  const all = useMemo(() => matches ?? [], [matches]);
+
+  const histogram = useMemo(() => scoreHistogram(all, filter, SCORE_BIN), [all, filter]);
+  const scratches = useMemo(() => scratchRates(all, filter), [all, filter]);
+  const averages = useMemo(() => categoryAverages(all, filter), [all, filter]);
+  const trends = useMemo(
+    () => profiles
+      .filter((p) => !profileId || p.id === profileId)
+      .map((p) => ({ name: p.name, color: p.diceColor, values: winRateOverTime(all, p.id).map((t) => t.rate) }))
+      .filter((s) => s.values.length > 0),
+    [all, profiles, profileId]
+  );
+  const rivals = useMemo(() => headToHead(all, profiles.map((p) => p.id)), [all, profiles]);
+
+  return (
+    <main className="min-h-screen bg-stone-950 text-white p-4 sm:p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex flex-wrap items-center gap-3 mb-6">
+          <Link href="/" className="text-sm underline text-white/70">← Back to the table</Link>
+          <h1 className="text-2xl font-black mr-auto">Stats</h1>
+          <select value={ruleSetId} onChange={(e) => setRuleSetId(e.target.value as RuleSetId)} className={selectClass}>
+            {Object.values(RULE_SETS).map((rules) => (
+              <option key={rules.id} value={rules.id} className="text-black">{rules.name}</option>
+            ))}
+          </select>
+          <select value={profileId} onChange={(e) => setProfileId(e.target.value)} className={selectClass}>
+            <option value="" className="text-black">All players</option>
+            {profiles.map((p) => (
+              <option key={p.id} value={p.id} className="text-black">{p.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {matches === null ? (
+          <div className="text-white/60">Loading…</div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Panel title="Final scores">
+              {histogram.length ? (
+                <BarChart rows={histogram.map((b) => ({ label: `${b.from}–${b.from + SCORE_BIN - 1}`, value: b.count }))} />
+              ) : <Empty />}
+            </Panel>
+
+            <Panel title="Win rate over time">
+              {trends.length ? (
+                <LineChart series={trends} max={1} format={percent} />
+              ) : (
+                <div className="text-sm text-white/60">Win rates appear once profiles have played against someone.</div>
+              )}
+            </Panel>
+
+            <Panel title="Scratched to 0">
+              {scratches.length ? (
+                <BarChart rows={scratches.map((s) => ({ label: label(s.category), value: s.rate }))} max={1} format={percent} color="#ef4444" />
+              ) : <Empty />}
+            </Panel>
+
+            <Panel title="Points per box">
+              {averages.length ? (
+                <BarChart
+                  rows={averages.map((a) => ({ label: label(a.category), value: a.average, reference: a.optimum }))}
+                  format={(v) => v.toFixed(1)}
+                  color="#22c55e"
+                  referenceLabel={averages.some((a) => a.optimum !== null) ? 'average under optimal play' : undefined}
+                />
+              ) : <Empty />}
+            </Panel>
+
+            <div className="md:col-span-2">
+              <Panel title="Head to head (all rules)">
+                {profiles.length < 2 ? (
+                  <div className="text-sm text-white/60">Needs at least two profiles.</div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="text-sm">
+                      <thead>
+                        <tr>
+                          <th />
+                          {profiles.map((p) => (
+                            <th key={p.id} className="px-3 py-1 text-white/70 font-bold">vs {p.name}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {profiles.map((a) => (
+                          <tr key={a.id}>
+                            <th className="px-3 py-1 text-left">{a.name}</th>
+                            {profiles.map((b) => {
+                              const record = rivals[a.id]?.[b.id];
+                              const played = record ? record.wins + record.losses + record.ties : 0;
+                              return (
+                                <td key={b.id} className="px-3 py-1 text-center tabular-nums">
+                                  {!record ? '' : played === 0 ? '–' : `${record.wins}–${record.losses}${record.ties ? `–${record.ties}` : ''}`}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div className="mt-2 text-xs text-white/60">Wins–losses(–ties) of the row player, by placing in the games both played.</div>
+                  </div>
+                )}
+              </Panel>
+            </div>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
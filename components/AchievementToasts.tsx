@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { getAchievement, AchievementId } from '@/lib/achievements';
+
+export interface AchievementToast {
+    key: number;
+    player: string;
+    id: AchievementId;
+}
+
+interface AchievementToastsProps {
+    toasts: AchievementToast[]; // oldest first
+    onDismiss: (key: number) => void;
+}
+
+// Stack of freshly earned badges in the top corner; the page takes each away after a while
+export default function AchievementToasts({ toasts, onDismiss }: AchievementToastsProps) {
+    if (toasts.length === 0) return null;
+    return (
+        <div className="fixed top-4 right-4 z-[200] flex flex-col gap-2 w-72 max-w-[calc(100vw-2rem)]">
+            {toasts.map((toast) => {
+                const achievement = getAchievement(toast.id);
+                return (
+                    <button
+                        key={toast.key}
+                        onClick={() => onDismiss(toast.key)}
+                        className="flex items-center gap-3 rounded-xl bg-black/80 px-3 py-2 text-left text-white border border-amber-400/60 shadow-xl backdrop-blur-md"
+                    >
+                        <span className="text-3xl">{achievement.icon}</span>
+                        <span>
+                            <span className="block text-xs font-bold uppercase tracking-wider text-amber-300">{toast.player} unlocked</span>
+                            <span className="block font-black">{achievement.title}</span>
+                            <span className="block text-xs text-white/70">{achievement.description}</span>
+                        </span>
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
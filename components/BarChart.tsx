@@ -0,0 +1,69 @@
+'use client';
+
+import React from 'react';
+
+export interface BarChartRow {
+    label: string;
+    value: number;
+    /** Drawn as a tick across the bar, e.g. a target to compare against. */
+    reference?: number | null;
+}
+
+interface BarChartProps {
+    rows: BarChartRow[];
+    format?: (value: number) => string;
+    max?: number; // defaults to the largest value or reference
+    color?: string;
+    referenceLabel?: string;
+    className?: string;
+}
+
+const ROW_H = 22;
+const LABEL_W = 110;
+const VALUE_W = 48;
+const WIDTH = 480;
+
+// Horizontal bars in plain SVG, one labelled row per value
+export default function BarChart({ rows, format = String, max, color = '#f59e0b', referenceLabel, className = '' }: BarChartProps) {
+    const top = Math.max(max ?? 0, ...rows.map((r) => Math.max(r.value, r.reference ?? 0))) || 1;
+    const barW = WIDTH - LABEL_W - VALUE_W;
+    const height = rows.length * ROW_H + (referenceLabel ? ROW_H : 0);
+
+    return (
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} className={`w-full h-auto ${className}`} role="img">
+            {rows.map((row, i) => {
+                const y = i * ROW_H;
+                return (
+                    <g key={row.label}>
+                        <text x={LABEL_W - 8} y={y + ROW_H * 0.7} textAnchor="end" fontSize="12" fill="rgba(255,255,255,0.75)">
+                            {row.label}
+                        </text>
+                        <rect x={LABEL_W} y={y + 4} width={barW} height={ROW_H - 8} rx="3" fill="rgba(255,255,255,0.06)" />
+                        <rect x={LABEL_W} y={y + 4} width={(row.value / top) * barW} height={ROW_H - 8} rx="3" fill={color} />
+                        {row.reference != null && (
+                            <line
+                                x1={LABEL_W + (row.reference / top) * barW}
+                                x2={LABEL_W + (row.reference / top) * barW}
+                                y1={y + 1}
+                                y2={y + ROW_H - 1}
+                                stroke="white"
+                                strokeWidth="2"
+                            />
+                        )}
+                        <text x={LABEL_W + barW + 6} y={y + ROW_H * 0.7} fontSize="12" fontWeight="bold" fill="white">
+                            {format(row.value)}
+                        </text>
+                    </g>
+                );
+            })}
+            {referenceLabel && (
+                <g>
+                    <line x1={LABEL_W} x2={LABEL_W} y1={height - ROW_H + 5} y2={height - 5} stroke="white" strokeWidth="2" />
+                    <text x={LABEL_W + 8} y={height - ROW_H * 0.3} fontSize="11" fill="rgba(255,255,255,0.75)">
+                        {referenceLabel}
+                    </text>
+                </g>
+            )}
+        </svg>
+    );
+}
@@ -27,6 +27,8 @@ interface DiceArenaProps {
     feltAspect?: number;
     arenaWorldHeight?: number;
     isMobile?: boolean;
+    diceCount?: number; // set by the rule set (Maxi Yatzy uses 6)
+    hintedDice?: boolean[]; // hint mode: dice the player should hold
 }
 
 const DIE_SIZE = 1.45475; // Increased by 15% then another 10% from original 1.15
@@ -202,6 +204,8 @@ function AnimatedDiceLayer({
     onTurnComplete,
     apiRef,
     isMobile,
+    diceCount,
+    hintedDice,
 }: {
     heldDice: boolean[];
     canInteract: boolean;
@@ -213,23 +217,27 @@ function AnimatedDiceLayer({
     onTurnComplete?: (results: number[]) => void;
     apiRef: React.MutableRefObject<DiceArenaHandle | null>;
     isMobile?: boolean;
+    diceCount: number;
+    hintedDice?: boolean[];
 }) {
-    const dieRefs = useRef<Array<DieHandle | null>>([null, null, null, null, null]);
+    const dieRefs = useRef<Array<DieHandle | null>>(new Array(diceCount).fill(null));
 
     const rollSeqRef = useRef(0);
-    const lastEmittedValuesRef = useRef<number[]>([1, 1, 1, 1, 1]);
+    const lastEmittedValuesRef = useRef<number[]>(new Array(diceCount).fill(1));
+    // Centre the starting row on the felt regardless of how many dice are in play
+    const rowCenter = (diceCount - 1) / 2;
 
     const arenaHeight = arenaWorldHeight;
     const arenaWidth = arenaWorldHeight * feltAspect;
     const offsetX = 1.0;
 
     const positions = useRef<THREE.Vector3[]>(
-        Array.from({ length: 5 }, (_, i) => new THREE.Vector3(offsetX + (i - 2) * 1.65, 0.62, 0)) // Adjusted spacing for smaller dice
+        Array.from({ length: diceCount }, (_, i) => new THREE.Vector3(offsetX + (i - rowCenter) * 1.65, 0.62, 0)) // Adjusted spacing for smaller dice
     );
-    const quats = useRef<THREE.Quaternion[]>(Array.from({ length: 5 }, () => new THREE.Quaternion()));
+    const quats = useRef<THREE.Quaternion[]>(Array.from({ length: diceCount }, () => new THREE.Quaternion()));
 
     const anim = useRef<DieAnim[]>(
-        Array.from({ length: 5 }, () => ({
+        Array.from({ length: diceCount }, () => ({
             active: false,
             finishedMotion: false,
             t: 0,
@@ -274,23 +282,23 @@ function AnimatedDiceLayer({
     );
 
     // Track previous held state to detect when dice become held
-    const prevHeldDice = useRef<boolean[]>([false, false, false, false, false]);
+    const prevHeldDice = useRef<boolean[]>(new Array(diceCount).fill(false));
 
     // PRIORITY 2: Held dice organize into a nice row when held
     const heldSlotPositions = useMemo(() => {
         // Organize held dice in a horizontal row at the bottom of the board
         const bottomZ = -arenaHeight / 2 - 1.0; // Bottom edge
         const centerX = offsetX; // Center horizontally
-        const totalWidth = 4 * 1.4; // Width for 5 dice with spacing (adjusted for smaller dice)
+        const totalWidth = (diceCount - 1) * 1.4; // Width for the dice row with spacing (adjusted for smaller dice)
         const startX = centerX - totalWidth / 2; // Start position to center the row
-        return Array.from({ length: 5 }, (_, i) => {
+        return Array.from({ length: diceCount }, (_, i) => {
             return new THREE.Vector3(
                 startX + i * 1.4, // Space them out horizontally (adjusted for smaller dice)
                 0.75, // Slightly elevated (increased from 0.62) to ensure held dice are visible above board
                 bottomZ
             );
         });
-    }, [arenaHeight, offsetX]);
+    }, [arenaHeight, offsetX, diceCount]);
 
     // Track which held dice are in which slots
     const heldSlotAssignment = useRef<Map<number, number>>(new Map()); // dieIndex -> slotIndex
@@ -317,18 +325,18 @@ function AnimatedDiceLayer({
     };
 
     const reset = () => {
-        for (let i = 0; i < 5; i++) {
-            positions.current[i].set(offsetX + (i - 2) * 1.65, 0.62, 0); // Adjusted spacing for smaller dice
+        for (let i = 0; i < diceCount; i++) {
+            positions.current[i].set(offsetX + (i - rowCenter) * 1.65, 0.62, 0); // Adjusted spacing for smaller dice
             quats.current[i].identity();
             cancelAnimForDie(i);
             anim.current[i].rollAccum.identity();
         }
-        lastEmittedValuesRef.current = [1, 1, 1, 1, 1];
+        lastEmittedValuesRef.current = new Array(diceCount).fill(1);
     };
 
     const forceResult = (values: number[]) => {
         rollSeqRef.current += 1;
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < diceCount; i++) {
             cancelAnimForDie(i);
 
             const v = clampDie(values[i] ?? 1);
@@ -366,7 +374,7 @@ function AnimatedDiceLayer({
         // Collect positions of held dice to avoid when placing new dice
         // Use their organized slot positions, not their current positions
         const heldPositions: THREE.Vector3[] = [];
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < diceCount; i++) {
             if (heldDice[i]) {
                 const slotIndex = heldSlotAssignment.current.get(i);
                 if (slotIndex !== undefined) {
@@ -379,7 +387,7 @@ function AnimatedDiceLayer({
         }
 
         // Only generate landing points for non-held dice
-        const nonHeldCount = 5 - heldPositions.length;
+        const nonHeldCount = diceCount - heldPositions.length;
         const land = generateLandingPoints({
             count: nonHeldCount,
             rng,
@@ -392,7 +400,7 @@ function AnimatedDiceLayer({
         }).sort(() => rng() - 0.5);
 
         let landIndex = 0;
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < diceCount; i++) {
             const a = anim.current[i];
 
             if (heldDice[i]) {
@@ -456,13 +464,13 @@ function AnimatedDiceLayer({
     };
 
     const roll = () => {
-        const vals = [0, 0, 0, 0, 0].map(() => 1 + Math.floor(Math.random() * 6));
+        const vals = Array.from({ length: diceCount }, () => 1 + Math.floor(Math.random() * 6));
         rollToResult(vals, { chaosMs: 1150 });
     };
 
     const getVisualValues = () => {
         const vals: number[] = [];
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < diceCount; i++) {
             vals.push(clampDie(dieRefs.current[i]?.getValue?.() ?? lastEmittedValuesRef.current[i] ?? 1));
         }
         return vals;
@@ -509,7 +517,7 @@ function AnimatedDiceLayer({
 
         // Check for newly held dice and assign them slots
         // First, handle un-holding (free slots before reassigning)
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < diceCount; i++) {
             if (!heldDice[i] && prevHeldDice.current[i]) {
                 // This die just became un-held - free its slot and reset animation
                 heldSlotAssignment.current.delete(i);
@@ -519,7 +527,7 @@ function AnimatedDiceLayer({
                 
                 // Move unheld die back to a safe position on the main board area
                 // Position it in a clear area to avoid being behind other held dice
-                const safeX = offsetX + (i - 2) * 1.65;
+                const safeX = offsetX + (i - rowCenter) * 1.65;
                 const safeZ = 0; // Center of board
                 positions.current[i].set(safeX, 0.62, safeZ); // Ensure Y is at board level
             }
@@ -531,7 +539,7 @@ function AnimatedDiceLayer({
         
         // Collect all currently held dice
         const currentlyHeld: number[] = [];
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < diceCount; i++) {
             if (heldDice[i]) {
                 currentlyHeld.push(i);
             }
@@ -560,7 +568,7 @@ function AnimatedDiceLayer({
         
         prevHeldDice.current = [...heldDice];
 
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < diceCount; i++) {
             const animState = anim.current[i];
             
             // HELD dice: animate to organized position, then stay there
@@ -804,6 +812,7 @@ function AnimatedDiceLayer({
                     position={positions.current[i]}
                     quaternion={quats.current[i]}
                     isHeld={!!heldDice[i]}
+                    isHinted={!!hintedDice?.[i]}
                     color={diceColor}
                     showDebugNumber={showDebugNumbers}
                     canClick={canInteract}
@@ -825,6 +834,8 @@ const DiceArena = forwardRef<DiceArenaHandle, DiceArenaProps>((props, ref) => {
         feltAspect = 1.0,
         arenaWorldHeight = 10.0,
         isMobile = false,
+        diceCount = 5,
+        hintedDice,
     } = props;
 
     const apiRef = useRef<DiceArenaHandle | null>(null);
@@ -878,6 +889,8 @@ const DiceArena = forwardRef<DiceArenaHandle, DiceArenaProps>((props, ref) => {
                     onTurnComplete={onTurnComplete}
                     apiRef={apiRef}
                     isMobile={props.isMobile}
+                    diceCount={diceCount}
+                    hintedDice={hintedDice}
                 />
             </Canvas>
         </div>
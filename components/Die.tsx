@@ -15,6 +15,7 @@ interface DieProps {
     position: THREE.Vector3;
     quaternion: THREE.Quaternion;
     isHeld: boolean;
+    isHinted?: boolean; // hint mode: glow to suggest holding this die
     color?: string;
     showDebugNumber?: boolean;
     canClick: boolean;
@@ -106,7 +107,7 @@ function computeValueFromQuaternion(q: THREE.Quaternion) {
 }
 
 const Die = forwardRef<DieHandle, DieProps>(
-    ({ position, quaternion, isHeld, color = '#FFFFFF', showDebugNumber = false, canClick, onClick }, ref) => {
+    ({ position, quaternion, isHeld, isHinted = false, color = '#FFFFFF', showDebugNumber = false, canClick, onClick }, ref) => {
         const [playPop] = useSound('/sounds/pop.mp3', { volume: 0.5 });
 
         const groupRef = useRef<THREE.Group>(null);
@@ -168,6 +169,8 @@ const Die = forwardRef<DieHandle, DieProps>(
                     <RoundedBox args={[DIE_SIZE, DIE_SIZE, DIE_SIZE]} radius={0.14} smoothness={8}>
                         <meshStandardMaterial 
                             color={isHeld ? '#fbbf24' : color} 
+                            emissive={isHinted ? '#22d3ee' : '#000000'}
+                            emissiveIntensity={isHinted ? 0.55 : 0}
                             roughness={0.15} 
                             metalness={0.3} 
                             envMapIntensity={1.2}
@@ -0,0 +1,107 @@
+'use client';
+
+import React from 'react';
+import MultiPlayerScorecard from '@/components/MultiPlayerScorecard';
+import { filterMatches, MatchRecord } from '@/lib/matchHistory';
+import { getRuleSet } from '@/lib/rulesets';
+import { ScoreCategory } from '@/lib/types';
+
+interface HistoryPanelProps {
+    matches: MatchRecord[];
+    boards: { id: string; name: string }[];
+    onDelete: (id: number) => void;
+}
+
+const selectClass = 'rounded-lg bg-black/40 px-3 py-1 text-sm border border-white/20';
+
+// Past games on this device: a filterable list, and any one game's scorecard (read-only)
+export default function HistoryPanel({ matches, boards, onDelete }: HistoryPanelProps) {
+    const [player, setPlayer] = React.useState('');
+    const [board, setBoard] = React.useState('');
+    const [openId, setOpenId] = React.useState<number | null>(null);
+
+    const playerNames = [...new Set(matches.flatMap((m) => m.players.map((p) => p.name)))].sort((a, b) => a.localeCompare(b));
+    const shown = filterMatches(matches, { player, board });
+    const boardName = (id: string) => boards.find((b) => b.id === id)?.name ?? id;
+    const open = matches.find((m) => m.id === openId);
+
+    if (open) {
+        const states = open.players.map((p) => p.state);
+        const winners = open.players.filter((p) => p.place === 1).map((p) => p.name);
+        return (
+            <div className="p-4 text-white flex flex-col gap-3 h-full">
+                <div className="flex flex-wrap items-center gap-3">
+                    <button onClick={() => setOpenId(null)} className="text-sm underline text-white/80">← All games</button>
+                    <div className="text-sm text-white/70">
+                        {new Date(open.finishedAt).toLocaleString()} · {boardName(open.board)} · {getRuleSet(open.ruleSetId).name}
+                        {open.seed !== null && ` · seed ${open.seed}`}
+                    </div>
+                    <div className="text-sm font-bold text-amber-200">🏆 {winners.join(' & ')}</div>
+                </div>
+                <MultiPlayerScorecard
+                    ruleSet={getRuleSet(open.ruleSetId)}
+                    playerNames={open.players.map((p) => p.name)}
+                    scorecards={states.map((s) => s.scorecard)}
+                    yahtzeeBonuses={states.map((s) => s.yahtzeeBonus)}
+                    upperSubtotals={states.map((s) => s.upperSubtotal)}
+                    upperBonuses={states.map((s) => s.upperBonus)}
+                    lowerTotals={states.map((s) => s.lowerTotal)}
+                    totals={states.map((s) => s.totalScore)}
+                    activePlayerIndex={open.players.findIndex((p) => p.place === 1)}
+                    potentialScores={{} as Record<ScoreCategory, number>}
+                    legalCategories={[]}
+                    canSelectCategory={false}
+                    onSelectCategory={() => {}}
+                    mustPick={false}
+                    className="flex-1"
+                />
+            </div>
+        );
+    }
+
+    return (
+        <div className="p-4 text-white">
+            <div className="flex flex-wrap items-center gap-2 mb-4">
+                <h2 className="text-xl font-black mr-auto">Match history</h2>
+                <select value={player} onChange={(e) => setPlayer(e.target.value)} className={selectClass}>
+                    <option value="" className="text-black">Everyone</option>
+                    {playerNames.map((name) => (
+                        <option key={name} value={name} className="text-black">{name}</option>
+                    ))}
+                </select>
+                <select value={board} onChange={(e) => setBoard(e.target.value)} className={selectClass}>
+                    <option value="" className="text-black">All boards</option>
+                    {boards.map((b) => (
+                        <option key={b.id} value={b.id} className="text-black">{b.name}</option>
+                    ))}
+                </select>
+            </div>
+            {shown.length === 0 && (
+                <div className="text-sm text-white/70">{matches.length === 0 ? 'No finished games yet.' : 'No games match.'}</div>
+            )}
+            <div className="flex flex-col gap-2">
+                {shown.map((match) => (
+                    <div key={match.id} className="flex items-center gap-3 rounded-xl bg-black/40 border border-white/10 px-3 py-2">
+                        <button onClick={() => setOpenId(match.id ?? null)} className="flex-1 text-left">
+                            <div className="text-xs text-white/60">
+                                {new Date(match.finishedAt).toLocaleString()} · {boardName(match.board)} · {getRuleSet(match.ruleSetId).name}
+                            </div>
+                            <div className="text-sm">
+                                {[...match.players]
+                                    .sort((a, b) => a.place - b.place)
+                                    .map((p) => `${p.place === 1 ? '🏆 ' : ''}${p.name} ${p.state.totalScore}`)
+                                    .join(' · ')}
+                            </div>
+                        </button>
+                        <button
+                            onClick={() => match.id !== undefined && window.confirm('Delete this game from the history?') && onDelete(match.id)}
+                            className="text-xs underline text-red-300"
+                        >
+                            Delete
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
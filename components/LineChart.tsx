@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+
+export interface LineSeries {
+    name: string;
+    color: string;
+    values: number[]; // evenly spaced, oldest first
+}
+
+interface LineChartProps {
+    series: LineSeries[];
+    max?: number; // top of the y axis; defaults to the largest value
+    format?: (value: number) => string;
+    className?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 200;
+const PAD = { left: 40, right: 12, top: 12, bottom: 24 };
+
+// Lines in plain SVG over a shared count axis (game 1, 2, ...), with a legend underneath
+export default function LineChart({ series, max, format = String, className = '' }: LineChartProps) {
+    const top = max ?? (Math.max(0, ...series.flatMap((s) => s.values)) || 1);
+    const longest = Math.max(2, ...series.map((s) => s.values.length));
+    const plotW = WIDTH - PAD.left - PAD.right;
+    const plotH = HEIGHT - PAD.top - PAD.bottom;
+    const x = (i: number) => PAD.left + (i / (longest - 1)) * plotW;
+    const y = (v: number) => PAD.top + plotH - (v / top) * plotH;
+
+    return (
+        <div className={className}>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+                {[0, 0.5, 1].map((f) => (
+                    <g key={f}>
+                        <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(top * f)} y2={y(top * f)} stroke="rgba(255,255,255,0.12)" />
+                        <text x={PAD.left - 6} y={y(top * f) + 4} textAnchor="end" fontSize="11" fill="rgba(255,255,255,0.6)">
+                            {format(top * f)}
+                        </text>
+                    </g>
+                ))}
+                <text x={PAD.left} y={HEIGHT - 6} fontSize="11" fill="rgba(255,255,255,0.6)">game 1</text>
+                <text x={WIDTH - PAD.right} y={HEIGHT - 6} textAnchor="end" fontSize="11" fill="rgba(255,255,255,0.6)">game {longest}</text>
+                {series.map((s) => (
+                    <g key={s.name}>
+                        <polyline
+                            points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(' ')}
+                            fill="none"
+                            stroke={s.color}
+                            strokeWidth="2.5"
+                            strokeLinejoin="round"
+                        />
+                        {s.values.length === 1 && <circle cx={x(0)} cy={y(s.values[0])} r="3.5" fill={s.color} />}
+                    </g>
+                ))}
+            </svg>
+            <div className="flex flex-wrap gap-3 mt-1 text-xs text-white/80">
+                {series.map((s) => (
+                    <span key={s.name} className="flex items-center gap-1">
+                        <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: s.color }} />
+                        {s.name}
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+}
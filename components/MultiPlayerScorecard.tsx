@@ -1,49 +1,49 @@
 // components/MultiPlayerScorecard.tsx
 'use client';
 
-import React, { useMemo } from 'react';
-import { ScoreCategory } from '@/lib/types';
-
-type Scorecard = Record<ScoreCategory, number | null>;
+import React from 'react';
+import { RuleSet, ScoreCategory, Scorecard } from '@/lib/types';
 
 interface MultiPlayerScorecardProps {
+  ruleSet: RuleSet;
   playerNames: string[];
   scorecards: Scorecard[];
   yahtzeeBonuses: number[]; // NEW
+  upperSubtotals: number[];
+  upperBonuses: number[];
+  lowerTotals: number[];
   totals: number[];
   activePlayerIndex: number;
 
   // For the ACTIVE player only:
   potentialScores: Record<ScoreCategory, number>;
+  legalCategories: ScoreCategory[]; // Joker rules may force a specific box
   canSelectCategory: boolean;
   onSelectCategory: (cat: ScoreCategory) => void;
   mustPick: boolean;
+  // Hint mode: best box and each open box's score impact relative to it
+  hintCategory?: ScoreCategory | null;
+  hintImpact?: Partial<Record<ScoreCategory, number>>;
   className?: string;
 }
 
-function calcUpperSubtotal(scorecard: Record<ScoreCategory, number | null> | null) {
-  if (!scorecard) return 0;
-  const cats = [
-    ScoreCategory.Ones,
-    ScoreCategory.Twos,
-    ScoreCategory.Threes,
-    ScoreCategory.Fours,
-    ScoreCategory.Fives,
-    ScoreCategory.Sixes,
-  ];
-  return cats.reduce((sum, c) => sum + (scorecard[c] ?? 0), 0);
-}
-
 export default function MultiPlayerScorecard({
+  ruleSet,
   playerNames,
   scorecards,
   yahtzeeBonuses,
+  upperSubtotals,
+  upperBonuses,
+  lowerTotals,
   totals,
   activePlayerIndex,
   potentialScores,
+  legalCategories,
   canSelectCategory,
   onSelectCategory,
   mustPick,
+  hintCategory = null,
+  hintImpact,
   className = ''
 }: MultiPlayerScorecardProps) {
   // State for viewed player (Tab)
@@ -54,9 +54,6 @@ export default function MultiPlayerScorecard({
     setViewedPlayer(activePlayerIndex);
   }, [activePlayerIndex]);
 
-  const upperSubtotals = useMemo(() => scorecards.map(calcUpperSubtotal), [scorecards]);
-  const bonuses = useMemo(() => upperSubtotals.map((st) => (st >= 63 ? 35 : 0)), [upperSubtotals]);
-
   // --- SOURCE IMAGE METRICS (scorecard_bg.png) ---
   const IMG_W = 718;
   const IMG_H = 1024;
@@ -130,22 +127,40 @@ export default function MultiPlayerScorecard({
     )
   }
 
-  const renderCat = (pIdx: number, cat: ScoreCategory, topPct: number, heightPct: number) => {
+  const getCell = (pIdx: number, cat: ScoreCategory) => {
     const score = scorecards[pIdx]?.[cat];
     const potential = potentialScores[cat];
     const isTaken = score !== undefined && score !== null;
     const isActive = pIdx === activePlayerIndex;
+    const isSelectable = !isTaken && isActive && canSelectCategory && legalCategories.includes(cat);
 
-    const showPotential = isActive && !isTaken && potential !== undefined && canSelectCategory;
+    const showPotential = isSelectable && potential !== undefined;
     const isZero = isTaken && score === 0;
     const displayVal = isTaken ? score : showPotential ? potential : '';
+    const isHint = isSelectable && hintCategory === cat;
+    const impact = isSelectable ? hintImpact?.[cat] : undefined;
+    return { isTaken, isSelectable, showPotential, isZero, displayVal, isHint, impact };
+  };
+
+  // "best" for the hinted box, otherwise how many points the choice gives up
+  const renderImpact = (isHint: boolean, impact: number | undefined, className: string) => {
+    if (impact === undefined) return null;
+    return (
+      <span className={`${className} font-sans font-bold ${isHint ? 'text-emerald-600' : 'text-rose-500'}`}>
+        {isHint ? '★ best' : impact.toFixed(1)}
+      </span>
+    );
+  };
+
+  const renderCat = (pIdx: number, cat: ScoreCategory, topPct: number, heightPct: number) => {
+    const { isTaken, isSelectable, showPotential, isZero, displayVal, isHint, impact } = getCell(pIdx, cat);
 
     return (
       <div
-        className={`absolute flex items-center justify-center font-handwriting transition-colors duration-200 ${!isTaken && isActive && canSelectCategory ? 'cursor-pointer hover:bg-blue-500/10' : ''
-          }`}
+        className={`absolute flex items-center justify-center font-handwriting transition-colors duration-200 ${isSelectable ? 'cursor-pointer hover:bg-blue-500/10' : ''
+          } ${isHint ? 'bg-emerald-400/30 ring-2 ring-emerald-500 ring-inset' : ''}`}
         style={{ top: `${topPct}%`, height: `${heightPct}%`, left: 0, right: 0 }}
-        onClick={() => !isTaken && isActive && canSelectCategory && onSelectCategory(cat)}
+        onClick={() => isSelectable && onSelectCategory(cat)}
       >
         <span
           className={`
@@ -157,6 +172,7 @@ export default function MultiPlayerScorecard({
         >
           {displayVal}
         </span>
+        {renderImpact(isHint, impact, 'absolute bottom-0 right-0.5 text-[7px] sm:text-[9px] leading-none')}
       </div >
     );
   };
@@ -196,7 +212,8 @@ export default function MultiPlayerScorecard({
 
           const isActive = i === activePlayerIndex;
           const upperTotal = upperSubtotals[i] ?? 0;
-          const upperBonus = bonuses[i] ?? 0;
+          const upperBonus = upperBonuses[i] ?? 0;
+          const lowerTotal = lowerTotals[i] ?? 0;
           const total = totals[i] ?? 0;
           const yahtzeeBonus = yahtzeeBonuses[i] ?? 0;
 
@@ -225,7 +242,7 @@ export default function MultiPlayerScorecard({
 
               {renderValue(yahtzeeBonus > 0 ? yahtzeeBonus : '', rowTopPct(ROWS.yahtzeeBonus[0]), rowHeightPct(...ROWS.yahtzeeBonus), true)}
 
-              {renderValue(total - (upperTotal + upperBonus), rowTopPct(ROWS.totalLower[0]), rowHeightPct(...ROWS.totalLower), true)}
+              {renderValue(lowerTotal, rowTopPct(ROWS.totalLower[0]), rowHeightPct(...ROWS.totalLower), true)}
               {renderValue(upperTotal + upperBonus, rowTopPct(ROWS.totalUpper2[0]), rowHeightPct(...ROWS.totalUpper2), true)}
               {renderValue(total, rowTopPct(ROWS.grandTotal[0]), rowHeightPct(...ROWS.grandTotal), true, 'text-sm sm:text-base lg:text-xl')}
             </div>
@@ -235,13 +252,68 @@ export default function MultiPlayerScorecard({
     </div>
   );
 
+  // Variant rule sets don't match the printed scorecard art, and the art only has four player
+  // columns, so those games get a plain ruled card built from the rule set's own category list.
+  const useArtCard = ruleSet.id === 'classic' && playerNames.length <= COLS.length;
+
+  const renderRuledCard = (pIdx: number) => {
+    const upper = ruleSet.categories.filter((c) => c.section === 'upper');
+    const lower = ruleSet.categories.filter((c) => c.section === 'lower');
+
+    const catRow = (cat: ScoreCategory, label: string) => {
+      const { isTaken, isSelectable, showPotential, isZero, displayVal, isHint, impact } = getCell(pIdx, cat);
+      return (
+        <div
+          key={cat}
+          className={`flex items-center justify-between px-3 py-1 border-b border-slate-300 transition-colors duration-200 ${isSelectable ? 'cursor-pointer hover:bg-blue-500/10' : ''} ${isHint ? 'bg-emerald-400/30' : ''}`}
+          onClick={() => isSelectable && onSelectCategory(cat)}
+        >
+          <span className={`text-sm sm:text-base ${isTaken ? 'text-slate-500' : 'text-slate-900'}`}>{label}</span>
+          {renderImpact(isHint, impact, 'ml-auto mr-2 text-[10px]')}
+          <span
+            className={`
+              text-[14px] sm:text-lg lg:text-xl transition-all duration-200
+              ${showPotential ? 'text-blue-600 font-extrabold drop-shadow-sm' : ''}
+              ${isTaken && !isZero ? 'text-slate-900 font-bold' : ''}
+              ${isZero ? 'text-slate-300 font-normal' : ''}
+            `}
+          >
+            {displayVal}
+          </span>
+        </div>
+      );
+    };
+
+    const totalRow = (label: string, val: number | string, strong = false) => (
+      <div className={`flex items-center justify-between px-3 py-1 border-b-2 border-slate-400 bg-slate-100 ${strong ? 'text-lg' : 'text-sm'}`}>
+        <span className="font-bold uppercase tracking-wide">{label}</span>
+        <span className="font-bold">{val}</span>
+      </div>
+    );
+
+    const upperBonus = upperBonuses[pIdx] ?? 0;
+    const yahtzeeBonus = yahtzeeBonuses[pIdx] ?? 0;
+
+    return (
+      <div className="h-full w-full max-w-sm mx-auto bg-[#fdfbf7] shadow-xl border border-slate-300 flex flex-col font-handwriting text-slate-900 overflow-y-auto">
+        <div className="px-3 py-2 text-center font-bold uppercase tracking-widest border-b-2 border-slate-800">{ruleSet.name}</div>
+        {upper.map((c) => catRow(c.id, c.label))}
+        {totalRow('Subtotal', upperSubtotals[pIdx] ?? 0)}
+        {ruleSet.upperBonus && totalRow(`Bonus (${ruleSet.upperBonus.threshold}+)`, upperBonus > 0 ? upperBonus : '')}
+        {lower.map((c) => catRow(c.id, c.label))}
+        {ruleSet.yahtzeeBonus && totalRow('Yahtzee Bonus', yahtzeeBonus > 0 ? yahtzeeBonus : '')}
+        {totalRow('Lower Total', lowerTotals[pIdx] ?? 0)}
+        {totalRow('Grand Total', totals[pIdx] ?? 0, true)}
+      </div>
+    );
+  };
+
   return (
     <div className={`relative flex flex-col w-full h-full ${className}`}>
       {/* Tabs Header */}
       <div className="flex w-full pt-2 pb-2 bg-white/95 z-20 border-b-2 border-black shrink-0">
         <div className="flex w-full px-2 gap-1 overflow-x-auto no-scrollbar">
-          {Array.from({ length: 4 }).map((_, i) => {
-            if (i >= playerNames.length) return null; // Don't show extra tabs
+          {playerNames.map((name, i) => {
             const isActive = i === viewedPlayer;
             const isTurn = i === activePlayerIndex;
             return (
@@ -249,19 +321,24 @@ export default function MultiPlayerScorecard({
                 key={`tab-${i}`}
                 onClick={() => setViewedPlayer(i)}
                 className={`
-                    flex-1 py-1 px-1 rounded-t-sm border-b-2 font-bold text-xs sm:text-sm transition-colors relative
+                    flex-1 min-w-[3.5rem] py-1 px-1 rounded-t-sm truncate border-b-2 font-bold text-xs sm:text-sm transition-colors relative
                     ${isActive ? 'border-blue-600 bg-white/60 text-black' : 'border-transparent text-black/50 hover:bg-black/5'}
                   `}
               >
                 {isTurn && <div className="absolute top-1 right-1 w-1.5 h-1.5 bg-green-500 rounded-full animate-pulse" />}
-                {playerNames[i] || `P${i + 1}`}
+                {name || `P${i + 1}`}
               </button>
             )
           })}
         </div>
       </div>
 
-      {/* Main Content Area: Aspect-Locked Single Player View */}
+      {!useArtCard ? (
+        <div className="flex-1 w-full min-h-0 relative overflow-hidden">
+          {renderRuledCard(viewedPlayer)}
+        </div>
+      ) : (
+      /* Main Content Area: Aspect-Locked Single Player View */
       <div className="flex-1 w-full relative overflow-hidden flex justify-center items-start">
         <div className="h-full relative shadow-xl" style={{ aspectRatio: VIEW_ASPECT }}>
 
@@ -295,6 +372,7 @@ export default function MultiPlayerScorecard({
           </div>
         </div>
       </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,67 @@
+'use client';
+
+import React from 'react';
+import { CategoryOdds, UPPER_TARGET_COUNT } from '@/lib/probabilities';
+import { RuleSet, Scorecard } from '@/lib/types';
+
+interface ProbabilityPanelProps {
+    ruleSet: RuleSet;
+    odds: CategoryOdds | null;
+    scorecard: Scorecard; // active player's card; filled rows are dimmed
+    rollsLeft: number;
+    isOpen: boolean;
+    onToggle: () => void;
+    className?: string;
+    style?: React.CSSProperties;
+}
+
+const formatPct = (p: number) => (p >= 0.9995 ? '100%' : p > 0 && p < 0.001 ? '<0.1%' : `${(p * 100).toFixed(1)}%`);
+
+// Bar colour from red (unlikely) through amber to green (likely)
+const barColor = (p: number) => (p >= 0.66 ? 'bg-emerald-500' : p >= 0.33 ? 'bg-amber-500' : 'bg-rose-500');
+
+export default function ProbabilityPanel({ ruleSet, odds, scorecard, rollsLeft, isOpen, onToggle, className = '', style }: ProbabilityPanelProps) {
+    return (
+        <div
+            className={`rounded-xl bg-black/75 text-white shadow-2xl border border-white/10 backdrop-blur-md overflow-hidden ${className}`}
+            style={style}
+        >
+            <button
+                onClick={onToggle}
+                className="w-full flex items-center justify-between gap-2 px-3 py-2 text-xs font-bold uppercase tracking-wider hover:bg-white/5"
+            >
+                <span>📊 Odds this turn</span>
+                <span className="text-white/60">{isOpen ? '▾' : '▸'}</span>
+            </button>
+
+            {isOpen && (
+                <div className="px-3 pb-3">
+                    <div className="text-[10px] text-white/50 mb-2">
+                        {rollsLeft === 0
+                            ? 'No rolls left'
+                            : `Keeping the held dice, ${rollsLeft} roll${rollsLeft === 1 ? '' : 's'} to go. Upper rows: ${UPPER_TARGET_COUNT} or more.`}
+                    </div>
+                    {!odds ? (
+                        <div className="text-xs text-white/50">Waiting for the dice…</div>
+                    ) : (
+                        <div className="flex flex-col gap-1">
+                            {ruleSet.categories.map((c) => {
+                                const p = odds[c.id] ?? 0;
+                                const filled = scorecard[c.id] !== null && scorecard[c.id] !== undefined;
+                                return (
+                                    <div key={c.id} className={`flex items-center gap-2 text-xs ${filled ? 'opacity-30' : ''}`}>
+                                        <span className="w-24 truncate">{c.label}</span>
+                                        <div className="flex-1 h-1.5 rounded bg-white/10 overflow-hidden">
+                                            <div className={`h-full ${barColor(p)}`} style={{ width: `${p * 100}%` }} />
+                                        </div>
+                                        <span className="w-12 text-right font-mono">{formatPct(p)}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
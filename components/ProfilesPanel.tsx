@@ -0,0 +1,101 @@
+'use client';
+
+import React from 'react';
+import { PlayerProfile, summarizeStats } from '@/lib/profiles';
+import { getRuleSet, RULE_SETS } from '@/lib/rulesets';
+import { RuleSetId } from '@/lib/types';
+
+interface ProfilesPanelProps {
+    profiles: PlayerProfile[];
+    boards: { id: string; name: string }[];
+    onUpdate: (profile: PlayerProfile) => void;
+    onDelete: (id: string) => void;
+}
+
+const percent = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+const decimal = (value: number | null) => (value === null ? '–' : value.toFixed(1));
+
+// Lifetime stats for every profile on this device, one rule variant at a time
+export default function ProfilesPanel({ profiles, boards, onUpdate, onDelete }: ProfilesPanelProps) {
+    const [ruleSetId, setRuleSetId] = React.useState<RuleSetId>('classic');
+    const ruleSet = getRuleSet(ruleSetId);
+
+    return (
+        <div className="p-4 text-white">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h2 className="text-xl font-black">Player profiles</h2>
+                <select
+                    value={ruleSetId}
+                    onChange={(e) => setRuleSetId(e.target.value as RuleSetId)}
+                    className="rounded-lg bg-black/40 px-3 py-1 text-sm border border-white/20"
+                    title="Stats are kept per rule variant"
+                >
+                    {Object.values(RULE_SETS).map((rules) => (
+                        <option key={rules.id} value={rules.id} className="text-black">{rules.name}</option>
+                    ))}
+                </select>
+            </div>
+            {profiles.length === 0 && (
+                <div className="text-sm text-white/70">No profiles yet. Save a player as a profile when entering names.</div>
+            )}
+            <div className="flex flex-col gap-4">
+                {profiles.map((profile) => {
+                    const summary = summarizeStats(profile.stats[ruleSetId], ruleSetId);
+                    const tiles: [string, string][] = [
+                        ['Games', String(summary.gamesPlayed)],
+                        ['Wins', summary.winRate === null ? String(summary.wins) : `${summary.wins} (${percent(summary.winRate)})`],
+                        ['Average', decimal(summary.averageScore)],
+                        ['Best', summary.bestScore === null ? '–' : String(summary.bestScore)],
+                        ['Yahtzees', String(summary.yahtzees)],
+                        ['Upper bonus', percent(summary.upperBonusRate)],
+                    ];
+                    return (
+                        <div key={profile.id} className="rounded-xl bg-black/40 border border-white/10 p-3">
+                            <div className="flex flex-wrap items-center gap-3 mb-3">
+                                <span className="h-5 w-5 rounded border border-white/30" style={{ backgroundColor: profile.diceColor }} />
+                                <span className="text-lg font-bold">{profile.name}</span>
+                                <label className="text-xs text-white/70">
+                                    Favorite board{' '}
+                                    <select
+                                        value={profile.favoriteBoard ?? ''}
+                                        onChange={(e) => onUpdate({ ...profile, favoriteBoard: e.target.value || null })}
+                                        className="rounded bg-black/40 px-2 py-0.5 border border-white/20"
+                                    >
+                                        <option value="" className="text-black">None</option>
+                                        {boards.map((board) => (
+                                            <option key={board.id} value={board.id} className="text-black">{board.name}</option>
+                                        ))}
+                                    </select>
+                                </label>
+                                <button
+                                    onClick={() => window.confirm(`Delete ${profile.name} and all their stats?`) && onDelete(profile.id)}
+                                    className="ml-auto text-xs underline text-red-300"
+                                >
+                                    Delete
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-3">
+                                {tiles.map(([label, value]) => (
+                                    <div key={label} className="rounded-lg bg-white/5 px-2 py-1 text-center">
+                                        <div className="text-[10px] uppercase tracking-wider text-white/60">{label}</div>
+                                        <div className="font-black tabular-nums">{value}</div>
+                                    </div>
+                                ))}
+                            </div>
+                            {summary.categoryAverages.length > 0 && (
+                                <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-0.5 text-xs">
+                                    {summary.categoryAverages.map(({ category, average }) => (
+                                        <div key={category} className="flex justify-between gap-2">
+                                            <span className="text-white/70">{ruleSet.categories.find((c) => c.id === category)?.label ?? category}</span>
+                                            <span className="font-bold tabular-nums">{average.toFixed(1)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
@@ -1,14 +1,16 @@
 'use client';
 
 import React from 'react';
-import { ScoreCategory } from '@/lib/types';
+import { ScoreCategory, Scorecard } from '@/lib/types';
 
 interface RealisticScorecardProps {
-    scorecard: Record<ScoreCategory, number | null>;
+    scorecard: Scorecard;
     potentialScores: Record<ScoreCategory, number>;
     onSelectCategory: (category: ScoreCategory) => void;
     currentTurn: number;
     rollsLeft: number;
+    upperSubtotal: number;
+    upperBonus: number;
     totalScore: number;
     playerName: string;
     isActiveTurn?: boolean;
@@ -39,18 +41,12 @@ export default function RealisticScorecard({
     onSelectCategory,
     currentTurn,
     rollsLeft,
+    upperSubtotal,
+    upperBonus,
     totalScore,
     playerName,
     isActiveTurn = true,
 }: RealisticScorecardProps) {
-    const calculateSubtotal = () => {
-        const categories = [ScoreCategory.Ones, ScoreCategory.Twos, ScoreCategory.Threes, ScoreCategory.Fours, ScoreCategory.Fives, ScoreCategory.Sixes];
-        return categories.reduce((sum, cat) => sum + (scorecard[cat] || 0), 0);
-    };
-
-    const subtotal = calculateSubtotal();
-    const bonus = subtotal >= 63 ? 35 : 0;
-
     // Must roll at least once to be allowed to score.
     const canScoreNow = rollsLeft < 3;
 
@@ -78,7 +74,7 @@ export default function RealisticScorecard({
                         return (
                             <div key="sub" className="grid grid-cols-[1.5fr_1fr] border-b border-slate-300 bg-slate-100 font-bold">
                                 <div className="p-2 text-sm uppercase text-slate-600">Subtotal</div>
-                                <div className="p-2 text-center text-slate-800">{subtotal}</div>
+                                <div className="p-2 text-center text-slate-800">{upperSubtotal}</div>
                             </div>
                         );
                     }
@@ -87,7 +83,7 @@ export default function RealisticScorecard({
                         return (
                             <div key="bonus" className="grid grid-cols-[1.5fr_1fr] border-b-4 border-slate-300 bg-slate-100 font-bold text-slate-600">
                                 <div className="p-2 text-sm uppercase">Bonus</div>
-                                <div className="p-2 text-center">{bonus > 0 ? bonus : '-'}</div>
+                                <div className="p-2 text-center">{upperBonus > 0 ? upperBonus : '-'}</div>
                             </div>
                         );
                     }
@@ -0,0 +1,49 @@
+'use client';
+
+import React from 'react';
+
+interface ReplayControlsProps {
+    label: string; // what the current frame shows, e.g. "Turn 4 · Ann rolls 6-6-2-3-6"
+    index: number; // -1 = before the first action
+    length: number;
+    isPlaying: boolean;
+    onTogglePlay: () => void;
+    onStep: (delta: number) => void;
+    onScrub: (index: number) => void;
+    onExit: () => void;
+    className?: string;
+}
+
+const buttonClass =
+    'px-3 py-1 rounded-full text-xs font-bold border bg-black/50 text-white/80 border-white/20 hover:text-white disabled:opacity-40';
+
+export default function ReplayControls({ label, index, length, isPlaying, onTogglePlay, onStep, onScrub, onExit, className = '' }: ReplayControlsProps) {
+    return (
+        <div className={`flex flex-col gap-2 rounded-xl bg-black/70 px-3 py-2 text-white border border-white/10 backdrop-blur-md ${className}`}>
+            <div className="flex items-center gap-2">
+                <button onClick={() => onStep(-1)} disabled={index < 0} className={buttonClass} title="Step back">
+                    ⏮
+                </button>
+                <button onClick={onTogglePlay} className={buttonClass} title={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? '⏸ Pause' : '▶ Play'}
+                </button>
+                <button onClick={() => onStep(1)} disabled={index >= length - 1} className={buttonClass} title="Step forward">
+                    ⏭
+                </button>
+                <div className="flex-1 truncate text-xs font-bold text-amber-200">{label}</div>
+                <button onClick={onExit} className={buttonClass}>
+                    ✕ Exit replay
+                </button>
+            </div>
+            <input
+                type="range"
+                min={-1}
+                max={length - 1}
+                value={index}
+                onChange={(e) => onScrub(Number(e.target.value))}
+                className="w-full accent-amber-400"
+                aria-label="Replay position"
+            />
+        </div>
+    );
+}
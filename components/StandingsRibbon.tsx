@@ -0,0 +1,32 @@
+'use client';
+
+import React from 'react';
+import { Standing } from '@/lib/standings';
+
+interface StandingsRibbonProps {
+    standings: Standing[]; // best first
+    activePlayer: number;
+    colors?: string[]; // dice color per player
+    className?: string;
+}
+
+// Running order of the table, one chip per player; the player on turn is outlined
+export default function StandingsRibbon({ standings, activePlayer, colors = [], className = '' }: StandingsRibbonProps) {
+    return (
+        <div className={`flex items-center gap-2 overflow-x-auto rounded-full bg-black/70 px-3 py-1 text-white border border-white/10 backdrop-blur-md ${className}`}>
+            {standings.map((standing) => (
+                <div
+                    key={standing.player}
+                    className={`flex shrink-0 items-center gap-1.5 rounded-full px-2 py-0.5 text-xs font-bold border ${
+                        standing.player === activePlayer ? 'border-amber-300 text-amber-200' : 'border-transparent text-white/80'
+                    }`}
+                >
+                    <span className="text-white/50">{standing.place}.</span>
+                    <span className="h-2.5 w-2.5 rounded-sm border border-white/30" style={{ backgroundColor: colors[standing.player] ?? '#FFFFFF' }} />
+                    <span className="max-w-[8rem] truncate">{standing.name}</span>
+                    <span className="font-black text-white">{standing.score}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
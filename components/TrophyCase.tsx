@@ -0,0 +1,55 @@
+'use client';
+
+import React from 'react';
+import { ACHIEVEMENTS } from '@/lib/achievements';
+import { PlayerProfile } from '@/lib/profiles';
+
+interface TrophyCaseProps {
+    profiles: PlayerProfile[];
+}
+
+// Every badge for every profile: earned ones lit with their date, the rest greyed out
+export default function TrophyCase({ profiles }: TrophyCaseProps) {
+    return (
+        <div className="p-4 text-white">
+            <h2 className="text-xl font-black mb-4">Trophy case</h2>
+            {profiles.length === 0 && (
+                <div className="text-sm text-white/70">Badges are kept for player profiles. Save a player as a profile when entering names.</div>
+            )}
+            <div className="flex flex-col gap-4">
+                {profiles.map((profile) => {
+                    const earned = ACHIEVEMENTS.filter((a) => profile.achievements?.[a.id]).length;
+                    return (
+                        <div key={profile.id} className="rounded-xl bg-black/40 border border-white/10 p-3">
+                            <div className="flex items-center gap-3 mb-3">
+                                <span className="h-5 w-5 rounded border border-white/30" style={{ backgroundColor: profile.diceColor }} />
+                                <span className="text-lg font-bold">{profile.name}</span>
+                                <span className="ml-auto text-xs text-white/60">{earned}/{ACHIEVEMENTS.length}</span>
+                            </div>
+                            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                                {ACHIEVEMENTS.map((achievement) => {
+                                    const at = profile.achievements?.[achievement.id];
+                                    return (
+                                        <div
+                                            key={achievement.id}
+                                            className={`flex items-center gap-2 rounded-lg px-2 py-1 border ${at ? 'bg-amber-500/15 border-amber-400/50' : 'bg-white/5 border-transparent opacity-40 grayscale'}`}
+                                            title={achievement.description}
+                                        >
+                                            <span className="text-2xl">{achievement.icon}</span>
+                                            <span>
+                                                <span className="block text-sm font-bold">{achievement.title}</span>
+                                                <span className="block text-[11px] text-white/70">
+                                                    {at ? new Date(at).toLocaleDateString() : achievement.description}
+                                                </span>
+                                            </span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
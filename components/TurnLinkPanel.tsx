@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+
+interface TurnLinkPanelProps {
+    link: string;
+    nextPlayer: string | null; // null once the game is over
+    className?: string;
+}
+
+const buttonClass = 'px-3 py-1 rounded-full text-xs font-bold border bg-black/50 text-white/80 border-white/20 hover:text-white';
+
+// Hand-off for games played by link: the new link, to copy or share with whoever plays next
+export default function TurnLinkPanel({ link, nextPlayer, className = '' }: TurnLinkPanelProps) {
+    const [copied, setCopied] = React.useState(false);
+    const canShare = typeof navigator !== 'undefined' && !!navigator.share;
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(link);
+            setCopied(true);
+            window.setTimeout(() => setCopied(false), 2000);
+        } catch {
+            // No clipboard access (plain http on a LAN address): let them copy it by hand
+            window.prompt('Copy this link', link);
+        }
+    };
+
+    const share = () => {
+        navigator.share({ title: 'Sarzee', text: nextPlayer ? `Your turn, ${nextPlayer}!` : 'Final scores', url: link }).catch(() => {});
+    };
+
+    return (
+        <div className={`flex flex-col gap-2 rounded-xl bg-black/70 px-3 py-2 text-white border border-white/10 backdrop-blur-md ${className}`}>
+            <div className="text-xs font-bold text-amber-200">
+                {nextPlayer ? `Your turn is in. Send this link to ${nextPlayer}.` : 'Game over. Send the final link so everyone sees the result.'}
+            </div>
+            <div className="flex items-center gap-2">
+                <input
+                    readOnly
+                    value={link}
+                    onFocus={(e) => e.target.select()}
+                    className="flex-1 min-w-0 rounded bg-black/40 px-2 py-1 text-xs text-white/80 border border-white/10"
+                />
+                <button onClick={copy} className={buttonClass}>
+                    {copied ? 'Copied' : 'Copy'}
+                </button>
+                {canShare && (
+                    <button onClick={share} className={buttonClass}>
+                        Share
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,98 @@
+import { AchievementTracker } from './AchievementTracker';
+import { AchievementId } from './achievements';
+import { GameSession } from './GameSession';
+import { ScriptedDiceSource, SeededDiceSource } from './DiceSource';
+import { computer, human, playOut } from './testGames';
+import { CLASSIC_RULES } from './rulesets';
+import { DieValue, ScoreCategory, UPPER_CATEGORIES } from './types';
+import assert from 'assert';
+
+const NANCY: DieValue[] = [1, 2, 3, 5, 6];
+const BOXES = [ScoreCategory.Chance, ScoreCategory.Ones, ScoreCategory.Twos, ScoreCategory.Threes, ScoreCategory.Fives, ScoreCategory.Sixes];
+
+function track(session: GameSession) {
+    const unlocks: [number, AchievementId][] = [];
+    const tracker = new AchievementTracker(session, (player, id) => unlocks.push([player, id]));
+    return { tracker, unlocks };
+}
+
+async function runTests() {
+    console.log("Running Achievement Tests...");
+
+    console.log("Test 1: A Yahtzee roll unlocks once per game, and never for a computer");
+    const yahtzees = new GameSession(
+        CLASSIC_RULES,
+        [human('Ann'), computer('Bot')],
+        new ScriptedDiceSource([4, 4, 4, 4, 4, 6, 6, 6, 6, 6, 2, 2, 2, 2, 2])
+    );
+    const first = track(yahtzees);
+    yahtzees.roll();
+    yahtzees.commitScore(ScoreCategory.Yahtzee);
+    yahtzees.roll();
+    yahtzees.commitScore(ScoreCategory.Yahtzee);
+    yahtzees.roll();
+    yahtzees.commitScore(ScoreCategory.Twos); // Joker rules: a second Yahtzee goes in its upper box
+    assert.deepStrictEqual(first.unlocks, [[0, 'first-yahtzee']]);
+    console.log("  PASS");
+
+    console.log("Test 2: The fifth Nancy of a game unlocks, even across a resume");
+    const nancies = new GameSession(CLASSIC_RULES, [human('Ann')], new ScriptedDiceSource(Array.from({ length: 6 }, () => NANCY).flat()));
+    const before = track(nancies);
+    for (let turn = 0; turn < 4; turn++) {
+        nancies.roll();
+        nancies.commitScore(BOXES[turn]);
+    }
+    assert.deepStrictEqual(before.unlocks, []);
+    before.tracker.dispose();
+
+    const resumed = track(nancies); // picks the count up from the history, without announcing anything
+    assert.deepStrictEqual(resumed.unlocks, []);
+    nancies.roll();
+    assert.deepStrictEqual(resumed.unlocks, [[0, 'nancy-five']]);
+    nancies.commitScore(BOXES[4]);
+    nancies.roll();
+    assert.strictEqual(resumed.unlocks.length, 1);
+    assert.deepStrictEqual(before.unlocks, []); // disposed
+    console.log("  PASS");
+
+    console.log("Test 3: End-of-game badges follow the final scorecard");
+    const game = new GameSession(CLASSIC_RULES, [human('Ann'), human('Bo')], new SeededDiceSource(2024));
+    const end = track(game);
+    playOut(game);
+    [0, 1].forEach((player) => {
+        const state = game.getEngine(player).getGameState();
+        const has = (id: AchievementId) => end.unlocks.some(([p, a]) => p === player && a === id);
+        assert.strictEqual(has('score-300'), state.totalScore >= 300);
+        assert.strictEqual(has('clean-sheet'), Object.values(state.scorecard).every((v) => v !== 0));
+        assert.strictEqual(has('first-yahtzee'), game.getEngine(player).getActionLog().some((a) => a.type === 'roll' && a.dice.every((d) => d === a.dice[0])));
+    });
+    console.log("  PASS");
+
+    console.log("Test 4: Upper Crust takes five of the face in every upper box, not four");
+    const upperGame = (perFace: number) => {
+        const upperDice = UPPER_CATEGORIES.flatMap((_, i) => {
+            const face = (i + 1) as DieValue;
+            return [...new Array(perFace).fill(face), ...new Array(5 - perFace).fill(face === 6 ? 5 : 6)];
+        });
+        const lowerDice = Array.from({ length: 7 }, (): DieValue[] => [2, 3, 4, 5, 6]).flat();
+        const session = new GameSession(CLASSIC_RULES, [human('Ann')], new ScriptedDiceSource([...upperDice, ...lowerDice]));
+        const { unlocks } = track(session);
+        UPPER_CATEGORIES.forEach((category) => {
+            session.roll();
+            session.commitScore(category);
+        });
+        playOut(session);
+        assert.ok(session.getEngine(0).getGameState().upperBonus > 0);
+        return unlocks.some(([, id]) => id === 'upper-crust');
+    };
+    assert.strictEqual(upperGame(5), true);
+    assert.strictEqual(upperGame(4), false);
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
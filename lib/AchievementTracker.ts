@@ -0,0 +1,85 @@
+import { AchievementId, isNancy, isYahtzee } from './achievements';
+import { GameReplay } from './GameReplay';
+import { GameSession, SessionEvent } from './GameSession';
+import { EngineAction } from './SarzeeEngine';
+import { GameState } from './types';
+
+export type UnlockListener = (player: number, id: AchievementId) => void;
+
+const YAHTZEE_TURNS = 3;
+const NANCIES = 5;
+const HIGH_SCORE = 300;
+const UPPER_CRUST_DICE = 5;
+
+/**
+ * Watches one game for achievements and reports each the first time a
+ * player earns it in that game. Computer seats don't earn anything. A game
+ * picked up part way (a resumed save, a game link) is read back from its
+ * history first, so counts like "Nancies this game" carry on where they were
+ * without announcing what was already earned.
+ */
+export class AchievementTracker {
+    private yahtzeeTurns: Set<number>[];
+    private nancies: number[];
+    private earned = new Set<string>();
+    private silent = false;
+    private unsubscribe: () => void;
+
+    constructor(private session: GameSession, private onUnlock: UnlockListener) {
+        const players = session.getPlayerCount();
+        this.yahtzeeTurns = Array.from({ length: players }, () => new Set<number>());
+        this.nancies = new Array(players).fill(0);
+
+        this.silent = true;
+        const history = GameReplay.fromEngines(session.getEngines());
+        for (let i = 0; i < history.length; i++) {
+            const frame = history.getFrame(i)!;
+            this.observe(frame.player, frame.action, frame.turn, frame.states[frame.player]);
+        }
+        if (session.isGameOver()) this.finish();
+        this.silent = false;
+
+        this.unsubscribe = session.subscribe((event) => this.handle(event));
+    }
+
+    public dispose() {
+        this.unsubscribe();
+    }
+
+    private handle(event: SessionEvent) {
+        if (event.type === 'gameOver') return this.finish();
+        if (event.type !== 'action') return;
+        const state = this.session.getEngine(event.player).getGameState();
+        // A commit has already moved the turn counter on; rolls are what count here
+        this.observe(event.player, event.action, state.currentTurn, state);
+    }
+
+    private observe(player: number, action: EngineAction, turn: number, state: GameState) {
+        if (action.type !== 'roll') return;
+        if (isYahtzee(action.dice)) {
+            this.unlock(player, 'first-yahtzee');
+            this.yahtzeeTurns[player].add(turn);
+            if (this.yahtzeeTurns[player].size >= YAHTZEE_TURNS) this.unlock(player, 'triple-yahtzee');
+        }
+        if (isNancy(action.dice, state.rollsLeft) && ++this.nancies[player] >= NANCIES) this.unlock(player, 'nancy-five');
+    }
+
+    private finish() {
+        const upper = this.session.getRuleSet().categories.filter((c) => c.section === 'upper');
+        this.session.getEngines().forEach((engine, player) => {
+            const state = engine.getGameState();
+            if (state.totalScore >= HIGH_SCORE) this.unlock(player, 'score-300');
+            if (Object.values(state.scorecard).every((score) => score !== 0)) this.unlock(player, 'clean-sheet');
+            // Upper boxes are the faces in order: Ones holds 1s, Twos 2s, ...
+            const strongFaces = upper.every((c, i) => (state.scorecard[c.id] ?? 0) >= UPPER_CRUST_DICE * (i + 1));
+            if (state.upperBonus > 0 && strongFaces) this.unlock(player, 'upper-crust');
+        });
+    }
+
+    private unlock(player: number, id: AchievementId) {
+        const key = `${player}:${id}`;
+        if (this.earned.has(key) || this.session.getPlayers()[player].cpu) return;
+        this.earned.add(key);
+        if (!this.silent) this.onUnlock(player, id);
+    }
+}
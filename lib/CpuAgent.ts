@@ -1,55 +1,108 @@
 import { SarzeeEngine } from "./SarzeeEngine";
-import { ScoreCategory } from "./types";
+import { CpuDifficulty, CpuStrategy, createStrategy } from "./CpuStrategies";
+import { GameState, ScoreCategory } from "./types";
+
+export type { CpuDifficulty } from "./CpuStrategies";
+
+/**
+ * One visible step of a computer turn. The page performs it (animating the
+ * roll, toggling holds, committing the score) and asks for the next step once
+ * the dice have settled.
+ */
+export type CpuStep =
+    | { type: 'roll'; message: string }
+    | { type: 'hold'; holds: boolean[]; message: string }
+    | { type: 'score'; category: ScoreCategory; message: string };
+
+/** How a computer seat is set up on the NAMES step. */
+export interface CpuSeat {
+    difficulty: CpuDifficulty;
+    mistakeRate: number;
+}
+
+export interface CpuAgentOptions {
+    difficulty?: CpuDifficulty;
+    /** Chance (0..1) of fumbling any single decision, so weaker players can win occasionally. */
+    mistakeRate?: number;
+    random?: () => number;
+}
 
 export class CpuAgent {
-    constructor(private engine: SarzeeEngine) { }
-
-    public async takeTurn(onThinking: (msg: string) => void) {
-        // Step 1: Initial Roll
-        onThinking("Rolling...");
-        await this.wait(1000);
-        // We simulate a roll by interacting with the engine directly? 
-        // Or do we need to trigger the physics engine?
-        // Triggering physics is hard from here without a ref to the Arena.
-        // Ideally, the CPU should just interact with the Engine state logic if we want "Simulation",
-        // but to make it visible, we need to drive the UI?
-
-        // Let's assume the Page handles the "Trigger Roll" action for the CPU.
-        // This agent just decides WHAT to do.
+    private strategy: CpuStrategy;
+    private mistakeRate: number;
+    private random: () => number;
+
+    // planStep is asked again after every hold toggle; keep the decision for the same dice
+    private plannedFor: string | null = null;
+    private plannedHolds: boolean[] = [];
+    private plannedCategory: ScoreCategory | null = null;
+
+    constructor(private engine: SarzeeEngine, options: CpuAgentOptions = {}) {
+        this.strategy = createStrategy(options.difficulty ?? 'beginner');
+        this.mistakeRate = Math.min(1, Math.max(0, options.mistakeRate ?? 0));
+        this.random = options.random ?? Math.random;
+    }
+
+    public getDifficulty(): CpuDifficulty {
+        return this.strategy.difficulty;
     }
 
-    // Simple decision making
-    public decideHold(dice: number[], rollsLeft: number): boolean[] {
-        // Simple heuristic: 
-        // If we have 3/4/5 of a kind, hold them.
-        // If we have a near straight, hold it.
-        // For now: Just hold max occurring value.
-
-        const counts = new Array(7).fill(0);
-        dice.forEach(d => counts[d]++);
-
-        let targetVal = 0;
-        let maxCount = 0;
-
-        // Find most frequent die
-        for (let i = 1; i <= 6; i++) {
-            if (counts[i] >= maxCount) {
-                maxCount = counts[i];
-                targetVal = i;
-            }
+    /** Decide what to do next with the current dice. */
+    public planStep(): CpuStep {
+        const state = this.engine.getGameState();
+
+        if (state.rollsLeft === 3) {
+            return { type: 'roll', message: 'Rolling...' };
         }
 
-        // Hold all dice that match targetVal
-        return dice.map(d => d === targetVal);
+        const key = `${state.currentTurn}:${state.rollsLeft}:${state.diceValues.join('')}`;
+        if (this.plannedFor !== key) {
+            this.plannedFor = key;
+            this.plannedCategory = null;
+            this.plannedHolds = state.rollsLeft > 0 ? this.decideHolds(state) : [];
+        }
+
+        const standPat = state.rollsLeft === 0 || this.plannedHolds.every((h) => h);
+        if (standPat) {
+            if (this.plannedCategory === null) this.plannedCategory = this.decideCategory(state);
+            const category = this.plannedCategory;
+            return { type: 'score', category, message: `Scoring ${this.labelFor(category)}` };
+        }
+
+        const holds = this.plannedHolds;
+        if (holds.some((h, i) => h !== state.heldDice[i])) {
+            const kept = state.diceValues.filter((_, i) => holds[i]);
+            const message = kept.length > 0 ? `Keeping ${kept.join('-')}` : 'Throwing everything back';
+            return { type: 'hold', holds, message };
+        }
+
+        return { type: 'roll', message: `Rolling again (${state.rollsLeft} left)` };
     }
 
-    public decideCategory(scorecard: any, potentialScores: any): ScoreCategory | null {
-        // Pick highest available score
-        // Prioritize: Yahtzee > Large Straight > Small Straight > Full House > rest
+    private decideHolds(state: GameState): boolean[] {
+        const holds = this.strategy.chooseHolds(this.engine, state);
+        if (!this.isMistake()) return holds;
 
-        // This is a placeholder for the logic we will impl in page.tsx
-        return null;
+        // Fumble: change our mind about one die
+        const idx = Math.floor(this.random() * holds.length);
+        return holds.map((h, i) => (i === idx ? !h : h));
     }
 
-    private wait(ms: number) { return new Promise(r => setTimeout(r, ms)); }
+    private decideCategory(state: GameState): ScoreCategory {
+        const category = this.strategy.chooseCategory(this.engine, state);
+        if (!this.isMistake()) return category;
+
+        // Fumble: put the dice in some other legal box
+        const others = this.engine.getLegalCategories().filter((c) => c !== category);
+        if (others.length === 0) return category;
+        return others[Math.floor(this.random() * others.length)];
+    }
+
+    private isMistake(): boolean {
+        return this.mistakeRate > 0 && this.random() < this.mistakeRate;
+    }
+
+    private labelFor(category: ScoreCategory): string {
+        return this.engine.getRuleSet().categories.find((c) => c.id === category)?.label ?? category;
+    }
 }
@@ -0,0 +1,225 @@
+import { SarzeeEngine } from "./SarzeeEngine";
+import { YahtzeeSolver } from "./YahtzeeSolver";
+import { DieValue, GameState, ScoreCategory } from "./types";
+
+export type CpuDifficulty = 'beginner' | 'intermediate' | 'expert';
+
+/**
+ * How a computer seat plays its dice. `chooseHolds` is only asked while
+ * rerolls remain; holding every die means "stop rolling and score".
+ */
+export interface CpuStrategy {
+    readonly difficulty: CpuDifficulty;
+    chooseHolds(engine: SarzeeEngine, state: GameState): boolean[];
+    chooseCategory(engine: SarzeeEngine, state: GameState): ScoreCategory;
+}
+
+// Tie-break / scratch order: keep the valuable boxes open as long as possible.
+const CATEGORY_PRIORITY: ScoreCategory[] = [
+    ScoreCategory.Yahtzee,
+    ScoreCategory.LargeStraight,
+    ScoreCategory.SmallStraight,
+    ScoreCategory.FullHouse,
+    ScoreCategory.FourOfAKind,
+    ScoreCategory.ThreeOfAKind,
+    ScoreCategory.Sixes,
+    ScoreCategory.Fives,
+    ScoreCategory.Fours,
+    ScoreCategory.Chance,
+    ScoreCategory.Threes,
+    ScoreCategory.Twos,
+    ScoreCategory.Ones,
+];
+
+const rank = (cat: ScoreCategory) => {
+    const idx = CATEGORY_PRIORITY.indexOf(cat);
+    return idx === -1 ? CATEGORY_PRIORITY.length : idx;
+};
+
+/** Highest immediate score, ties broken by priority; scratch the least valuable box if nothing scores. */
+export function greedyCategory(engine: SarzeeEngine, dice?: DieValue[]): { category: ScoreCategory; score: number } {
+    const legal = engine.getLegalCategories(dice);
+    let best = legal[0];
+    let bestScore = -1;
+    for (const cat of legal) {
+        const score = engine.calculatePotentialScore(cat, dice);
+        if (score > bestScore || (score === bestScore && rank(cat) < rank(best))) {
+            best = cat;
+            bestScore = score;
+        }
+    }
+
+    if (bestScore === 0) {
+        return { category: [...legal].sort((a, b) => rank(b) - rank(a))[0], score: 0 };
+    }
+    return { category: best, score: bestScore };
+}
+
+/** Holds the most common face, and stops once a Yahtzee or large straight is on the table. */
+export class BeginnerStrategy implements CpuStrategy {
+    public readonly difficulty: CpuDifficulty = 'beginner';
+
+    public chooseHolds(engine: SarzeeEngine, state: GameState): boolean[] {
+        if (this.shouldStandPat(engine)) return state.diceValues.map(() => true);
+        return this.decideHold(state.diceValues, state.rollsLeft);
+    }
+
+    public chooseCategory(engine: SarzeeEngine): ScoreCategory {
+        return greedyCategory(engine).category;
+    }
+
+    // Simple decision making
+    public decideHold(dice: number[], rollsLeft: number): boolean[] {
+        // Simple heuristic:
+        // If we have 3/4/5 of a kind, hold them.
+        // If we have a near straight, hold it.
+        // For now: Just hold max occurring value.
+
+        const counts = new Array(7).fill(0);
+        dice.forEach(d => counts[d]++);
+
+        let targetVal = 0;
+        let maxCount = 0;
+
+        // Find most frequent die
+        for (let i = 1; i <= 6; i++) {
+            if (counts[i] >= maxCount) {
+                maxCount = counts[i];
+                targetVal = i;
+            }
+        }
+
+        // On the last reroll a lone high die is not worth chasing
+        if (maxCount === 1 && rollsLeft === 1) {
+            return dice.map(() => false);
+        }
+
+        // Hold all dice that match targetVal
+        return dice.map(d => d === targetVal);
+    }
+
+    /** Stop rolling once the dice already fill a fixed-value box that is still open. */
+    private shouldStandPat(engine: SarzeeEngine): boolean {
+        const legal = engine.getLegalCategories();
+        return [ScoreCategory.Yahtzee, ScoreCategory.LargeStraight].some(
+            (cat) => legal.includes(cat) && engine.calculatePotentialScore(cat) > 0
+        );
+    }
+}
+
+/**
+ * Looks one roll ahead: keeps whichever dice give the best expected score
+ * after a single reroll (scored greedily), and stands pat when no reroll
+ * beats what is already showing.
+ */
+export class IntermediateStrategy implements CpuStrategy {
+    public readonly difficulty: CpuDifficulty = 'intermediate';
+
+    public chooseHolds(engine: SarzeeEngine, state: GameState): boolean[] {
+        const dice = state.diceValues;
+        const scoreOf = memoize((hand: DieValue[]) => greedyCategory(engine, hand).score);
+
+        let bestHolds = dice.map(() => true);
+        let bestValue = scoreOf(dice);
+        const seen = new Set<string>();
+
+        for (let bits = 0; bits < (1 << dice.length) - 1; bits++) {
+            const kept = dice.filter((_, i) => bits & (1 << i));
+            const key = [...kept].sort().join('');
+            if (seen.has(key)) continue;
+            seen.add(key);
+
+            const value = expectedAfterReroll(kept, dice.length - kept.length, scoreOf);
+            if (value > bestValue + 1e-9) {
+                bestValue = value;
+                bestHolds = dice.map((_, i) => !!(bits & (1 << i)));
+            }
+        }
+        return bestHolds;
+    }
+
+    public chooseCategory(engine: SarzeeEngine): ScoreCategory {
+        return greedyCategory(engine).category;
+    }
+
+    /** Expected points from the next roll if exactly the `holds` dice are kept. */
+    public evaluateHold(engine: SarzeeEngine, state: GameState, holds: boolean[]): number {
+        const scoreOf = memoize((hand: DieValue[]) => greedyCategory(engine, hand).score);
+        const kept = state.diceValues.filter((_, i) => holds[i]);
+        if (kept.length === state.diceValues.length) return scoreOf(kept);
+        return expectedAfterReroll(kept, state.diceValues.length - kept.length, scoreOf);
+    }
+}
+
+/**
+ * Plays the optimal solitaire strategy from the solver. The solver covers the
+ * classic rules only and needs its table loaded; otherwise it plays like
+ * Intermediate.
+ */
+export class ExpertStrategy implements CpuStrategy {
+    public readonly difficulty: CpuDifficulty = 'expert';
+    private fallback = new IntermediateStrategy();
+
+    public chooseHolds(engine: SarzeeEngine, state: GameState): boolean[] {
+        const solver = this.getSolver(engine);
+        return solver ? solver.bestHold(state).holds : this.fallback.chooseHolds(engine, state);
+    }
+
+    public chooseCategory(engine: SarzeeEngine, state: GameState): ScoreCategory {
+        const solver = this.getSolver(engine);
+        return solver ? solver.bestCategory(state).category : this.fallback.chooseCategory(engine);
+    }
+
+    private getSolver(engine: SarzeeEngine): YahtzeeSolver | null {
+        if (engine.getRuleSet().id !== 'classic') return null;
+        const solver = YahtzeeSolver.shared();
+        return solver.isBuilt() ? solver : null;
+    }
+}
+
+export function createStrategy(difficulty: CpuDifficulty): CpuStrategy {
+    switch (difficulty) {
+        case 'beginner':
+            return new BeginnerStrategy();
+        case 'intermediate':
+            return new IntermediateStrategy();
+        case 'expert':
+            return new ExpertStrategy();
+    }
+}
+
+// --- helpers ---
+
+function memoize(fn: (hand: DieValue[]) => number): (hand: DieValue[]) => number {
+    const cache = new Map<string, number>();
+    return (hand) => {
+        const key = [...hand].sort().join('');
+        let value = cache.get(key);
+        if (value === undefined) {
+            value = fn(hand);
+            cache.set(key, value);
+        }
+        return value;
+    };
+}
+
+/** Average score over every way `rerolled` fresh dice can land next to `kept`. */
+function expectedAfterReroll(kept: DieValue[], rerolled: number, scoreOf: (hand: DieValue[]) => number): number {
+    // Enumerate outcomes as multisets weighted by their multinomial probability
+    const factorial = (n: number): number => (n <= 1 ? 1 : n * factorial(n - 1));
+    const total = Math.pow(6, rerolled);
+    let sum = 0;
+
+    const walk = (face: number, left: number, hand: DieValue[], ways: number) => {
+        if (face === 6) {
+            const full = [...hand, ...new Array(left).fill(6)] as DieValue[];
+            sum += scoreOf(full) * (ways / factorial(left));
+            return;
+        }
+        for (let c = 0; c <= left; c++) {
+            walk(face + 1, left - c, [...hand, ...new Array(c).fill(face)], ways / factorial(c));
+        }
+    };
+    walk(1, rerolled, [...kept], factorial(rerolled));
+    return sum / total;
+}
@@ -0,0 +1,84 @@
+import { DieValue } from './types';
+
+/**
+ * Where the engine's dice come from. The physics arena only animates toward
+ * whatever the source decided, so swapping the source is enough to make a
+ * game reproducible (seeded) or fully scripted (tests).
+ */
+export interface DiceSource {
+    /** Draw one die. */
+    next(): DieValue;
+}
+
+/** Resume point of a seeded source: the seed plus how many dice have been drawn. */
+export interface DiceSourceState {
+    seed: number;
+    position: number;
+}
+
+const MULBERRY_STEP = 0x6d2b79f5;
+
+/**
+ * mulberry32, the same generator DiceArena uses for its tumbling, wrapped so
+ * its position can be saved and restored without replaying every draw.
+ */
+export class SeededDiceSource implements DiceSource {
+    private readonly seed: number;
+    private position: number;
+
+    constructor(seed: number, position = 0) {
+        this.seed = seed >>> 0;
+        this.position = position;
+    }
+
+    public static fromState(state: DiceSourceState): SeededDiceSource {
+        return new SeededDiceSource(state.seed, state.position);
+    }
+
+    public next(): DieValue {
+        this.position++;
+        const t = (this.seed + Math.imul(this.position, MULBERRY_STEP)) >>> 0;
+        let x = Math.imul(t ^ (t >>> 15), 1 | t);
+        x ^= x + Math.imul(x ^ (x >>> 7), 61 | x);
+        const r = ((x ^ (x >>> 14)) >>> 0) / 4294967296;
+        return (1 + Math.floor(r * 6)) as DieValue;
+    }
+
+    public getSeed(): number {
+        return this.seed;
+    }
+
+    public getState(): DiceSourceState {
+        return { seed: this.seed, position: this.position };
+    }
+}
+
+/** Hands out a fixed list of dice in order; throws once it runs dry. */
+export class ScriptedDiceSource implements DiceSource {
+    private index = 0;
+
+    constructor(private readonly values: DieValue[]) { }
+
+    public next(): DieValue {
+        if (this.index >= this.values.length) {
+            throw new Error(`Scripted dice exhausted after ${this.values.length} dice`);
+        }
+        return this.values[this.index++];
+    }
+
+    public remaining(): number {
+        return this.values.length - this.index;
+    }
+}
+
+/** Fallback for engines built without an explicit source. */
+export class RandomDiceSource implements DiceSource {
+    public next(): DieValue {
+        return (1 + Math.floor(Math.random() * 6)) as DieValue;
+    }
+}
+
+/** A fresh 32-bit seed for a new game. */
+export function createSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,84 @@
+import { EngineAction, SarzeeEngine, SerializedEngine } from './SarzeeEngine';
+import { GameState } from './types';
+
+/** One recorded action, with every player's state right after it. */
+export interface ReplayFrame {
+    player: number;
+    /** Turn number the action belongs to (1-based). */
+    turn: number;
+    action: EngineAction;
+    states: GameState[];
+}
+
+/**
+ * Turn-by-turn timeline of a game, rebuilt from each engine's action log.
+ *
+ * Players take turns in seat order, so the per-engine logs are split at every
+ * score commit and interleaved round by round. Frame -1 is the start of the
+ * log, before anybody has acted.
+ */
+export class GameReplay {
+    private initial: GameState[];
+    private frames: ReplayFrame[] = [];
+
+    constructor(engines: SerializedEngine[]) {
+        const replays = engines.map((e) => SarzeeEngine.deserialize({ ruleSetId: e.ruleSetId, state: e.baseState ?? e.state }));
+        this.initial = replays.map((e) => e.getGameState());
+
+        const turnsByPlayer = engines.map((e) => this.splitTurns(e.actions ?? []));
+        const rounds = Math.max(0, ...turnsByPlayer.map((turns) => turns.length));
+        const states = [...this.initial];
+
+        for (let round = 0; round < rounds; round++) {
+            turnsByPlayer.forEach((turns, player) => {
+                for (const action of turns[round] ?? []) {
+                    const engine = replays[player];
+                    const turn = engine.getGameState().currentTurn;
+                    if (action.type === 'roll') engine.rollDice(action.dice);
+                    else if (action.type === 'toggleHold') engine.toggleHold(action.index);
+                    else engine.commitScore(action.category);
+
+                    states[player] = engine.getGameState();
+                    this.frames.push({ player, turn, action, states: [...states] });
+                }
+            });
+        }
+    }
+
+    public static fromEngines(engines: SarzeeEngine[]): GameReplay {
+        return new GameReplay(engines.map((e) => e.serialize()));
+    }
+
+    public get length(): number {
+        return this.frames.length;
+    }
+
+    public getFrame(index: number): ReplayFrame | null {
+        return this.frames[index] ?? null;
+    }
+
+    /** Every player's state after frame `index` (-1 for the start). */
+    public statesAt(index: number): GameState[] {
+        if (index < 0 || this.frames.length === 0) return this.initial.map((s) => ({ ...s }));
+        return this.frames[Math.min(index, this.frames.length - 1)].states;
+    }
+
+    /** Index of the first frame of each player turn, in play order. */
+    public turnStarts(): number[] {
+        return this.frames.flatMap((frame, i) => {
+            const prev = this.frames[i - 1];
+            return !prev || prev.player !== frame.player || prev.action.type === 'commitScore' ? [i] : [];
+        });
+    }
+
+    // A turn ends with its score commit; anything after the last commit is the turn in progress
+    private splitTurns(actions: EngineAction[]): EngineAction[][] {
+        const turns: EngineAction[][] = [[]];
+        for (const action of actions) {
+            turns[turns.length - 1].push(action);
+            if (action.type === 'commitScore') turns.push([]);
+        }
+        if (turns[turns.length - 1].length === 0) turns.pop();
+        return turns;
+    }
+}
@@ -0,0 +1,147 @@
+import { GameSession, SessionEvent, SessionPlayer } from './GameSession';
+import { human, playOut } from './testGames';
+import { ScriptedDiceSource, SeededDiceSource } from './DiceSource';
+import { CLASSIC_RULES } from './rulesets';
+import { DieValue, ScoreCategory } from './types';
+import assert from 'assert';
+
+const players = (...names: string[]): SessionPlayer[] => names.map((name) => human(name));
+
+// One roll, scored in the first open box
+function firstOpenBox(session: GameSession) {
+    session.roll();
+    session.commitScore(session.getActiveEngine().getLegalCategories()[0]);
+}
+
+async function runTests() {
+    console.log("Running GameSession Tests...");
+
+    console.log("Test 1: Turns rotate in seat order after each commit");
+    const session = new GameSession(CLASSIC_RULES, players('Ann', 'Bo', 'Cy'), new SeededDiceSource(7));
+    assert.strictEqual(session.getActivePlayer(), 0);
+    session.roll();
+    session.toggleHold(0);
+    assert.strictEqual(session.getActivePlayer(), 0);
+    session.commitScore(ScoreCategory.Chance);
+    assert.strictEqual(session.getActivePlayer(), 1);
+    session.roll();
+    session.commitScore(ScoreCategory.Chance);
+    session.roll();
+    session.commitScore(ScoreCategory.Chance);
+    assert.strictEqual(session.getActivePlayer(), 0);
+    assert.strictEqual(session.getEngine(0).getGameState().currentTurn, 2);
+    console.log("  PASS");
+
+    console.log("Test 2: Rejected actions don't change the turn or reach listeners");
+    const events: SessionEvent[] = [];
+    const unsubscribe = session.subscribe((e) => events.push(e));
+    session.toggleHold(0); // nothing rolled yet
+    assert.throws(() => session.commitScore(ScoreCategory.Ones), /roll at least once/);
+    assert.strictEqual(session.getActivePlayer(), 0);
+    assert.strictEqual(events.length, 0);
+    session.roll();
+    assert.deepStrictEqual(events.map((e) => e.type), ['action']);
+    unsubscribe();
+    session.roll();
+    assert.strictEqual(events.length, 1);
+    console.log("  PASS");
+
+    console.log("Test 3: Game over is announced once every player has filled their card");
+    const finished = new GameSession(CLASSIC_RULES, players('Ann', 'Bo'), new SeededDiceSource(42));
+    let gameOvers = 0;
+    finished.subscribe((e) => {
+        if (e.type === 'gameOver') gameOvers++;
+    });
+    playOut(finished, firstOpenBox);
+    assert.strictEqual(gameOvers, 1);
+    assert.ok(finished.getEngines().every((e) => e.getGameState().isGameOver));
+    console.log("  PASS");
+
+    console.log("Test 4: Standings rank by total and share places on a tie");
+    const dice: DieValue[] = [6, 6, 6, 6, 6, 6, 6, 6, 6, 6, 1, 1, 1, 1, 1];
+    const tied = new GameSession(CLASSIC_RULES, players('Ann', 'Bo', 'Cy'), new ScriptedDiceSource(dice));
+    for (let i = 0; i < 3; i++) {
+        tied.roll();
+        tied.commitScore(ScoreCategory.Chance);
+    }
+    const standings = tied.getStandings();
+    assert.deepStrictEqual(standings.map((s) => [s.name, s.score, s.place]), [['Ann', 30, 1], ['Bo', 30, 1], ['Cy', 5, 3]]);
+    console.log("  PASS");
+
+    console.log("Test 5: Undo walks back across players; computer moves stay put");
+    const table = new GameSession(CLASSIC_RULES, [...players('Ann'), { name: 'Bot', diceColor: '#000000', cpu: { difficulty: 'beginner', mistakeRate: 0 } }], new SeededDiceSource(3));
+    table.roll();
+    table.commitScore(ScoreCategory.Chance);
+    assert.strictEqual(table.getActivePlayer(), 1);
+    assert.strictEqual(table.getUndoOwner(), 0);
+    assert.strictEqual(table.undo()?.type, 'commitScore');
+    assert.strictEqual(table.getActivePlayer(), 0);
+    assert.strictEqual(table.canUndo(), false); // the roll is seen
+    assert.strictEqual(table.redo()?.type, 'commitScore');
+    assert.strictEqual(table.getActivePlayer(), 1);
+    table.roll();
+    table.toggleHold(0);
+    assert.strictEqual(table.canUndo(), false);
+    console.log("  PASS");
+
+    console.log("Test 6: Serialize round trip keeps seats, turn and dice position");
+    const saved = new GameSession(CLASSIC_RULES, players('Ann', 'Bo'), new SeededDiceSource(99));
+    saved.roll();
+    saved.commitScore(ScoreCategory.Chance);
+    saved.roll();
+    const restored = GameSession.deserialize(JSON.parse(JSON.stringify(saved.serialize())));
+    assert.strictEqual(restored.getActivePlayer(), 1);
+    assert.deepStrictEqual(restored.getPlayers(), saved.getPlayers());
+    assert.deepStrictEqual(restored.getEngine(1).getGameState(), saved.getEngine(1).getGameState());
+    saved.toggleHold(0);
+    restored.toggleHold(0);
+    assert.deepStrictEqual(restored.roll(), saved.roll());
+    assert.throws(() => GameSession.deserialize({ ...saved.serialize(), players: players('Ann') }), /one engine per player/);
+    console.log("  PASS");
+
+    console.log("Test 7: Tie-breakers split equal totals in order; the rest stay tied");
+    const tieDice: DieValue[] = [
+        2, 2, 2, 2, 2, 1, 2, 3, 4, 5, 2, 3, 4, 5, 6, // turn 1: Ann Yahtzee, Bo and Cy large straights
+        1, 1, 1, 1, 2, 2, 2, 3, 4, 5, 4, 4, 4, 4, 1, // turn 2: Ann and Bo Chance, Cy four 4s in Fours
+    ];
+    const tb = new GameSession(CLASSIC_RULES, players('Ann', 'Bo', 'Cy'), new ScriptedDiceSource(tieDice), ['yahtzees', 'upper']);
+    const plan = [
+        [ScoreCategory.Yahtzee, ScoreCategory.LargeStraight, ScoreCategory.LargeStraight],
+        [ScoreCategory.Chance, ScoreCategory.Chance, ScoreCategory.Fours],
+    ];
+    for (const round of plan) {
+        for (const category of round) {
+            tb.roll();
+            tb.commitScore(category);
+        }
+    }
+    assert.deepStrictEqual(
+        tb.getStandings().map((s) => [s.name, s.score, s.place, s.decidedBy]),
+        [['Ann', 56, 1, 'yahtzees'], ['Cy', 56, 2, 'upper'], ['Bo', 56, 3, 'upper']]
+    );
+    const noBreakers = GameSession.deserialize({ ...tb.serialize(), tieBreakers: [] });
+    assert.deepStrictEqual(noBreakers.getStandings().map((s) => s.place), [1, 1, 1]);
+    console.log("  PASS");
+
+    console.log("Test 8: Running out of time scores the best box, rolling first if needed");
+    const timed = new GameSession(CLASSIC_RULES, players('Ann', 'Bo'), new ScriptedDiceSource([3, 3, 3, 2, 2, 1, 2, 3, 4, 6, 5]));
+    assert.strictEqual(timed.autoCommit(), ScoreCategory.FullHouse); // never rolled: one roll, then the 25
+    assert.strictEqual(timed.getEngine(0).getGameState().scorecard[ScoreCategory.FullHouse], 25);
+    assert.strictEqual(timed.getActivePlayer(), 1);
+    timed.roll();
+    timed.toggleHold(0);
+    timed.toggleHold(1);
+    timed.toggleHold(2);
+    timed.toggleHold(3);
+    timed.roll();
+    assert.strictEqual(timed.autoCommit(), ScoreCategory.LargeStraight); // holds kept, no extra roll
+    assert.strictEqual(timed.getActivePlayer(), 0);
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
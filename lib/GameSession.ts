@@ -0,0 +1,258 @@
+import { CpuSeat } from './CpuAgent';
+import { greedyCategory } from './CpuStrategies';
+import { createSeed, DiceSource, DiceSourceState, SeededDiceSource } from './DiceSource';
+import { EngineAction, SarzeeEngine, SerializedEngine } from './SarzeeEngine';
+import { CLASSIC_RULES, getRuleSet } from './rulesets';
+import { getTieBreaker, rankStandings, Standing, TieBreakerId } from './standings';
+import { DieValue, RuleSet, ScoreCategory } from './types';
+
+export type { Standing, TieBreakerId } from './standings';
+
+/** Someone sitting at the table. */
+export interface SessionPlayer {
+    name: string;
+    diceColor: string;
+    /** null for a human seat. */
+    cpu: CpuSeat | null;
+}
+
+export type SessionEvent =
+    | { type: 'action'; player: number; action: EngineAction }
+    | { type: 'undo' | 'redo'; player: number; action: EngineAction }
+    | { type: 'turn'; player: number }
+    | { type: 'gameOver'; standings: Standing[] };
+
+export type SessionListener = (event: SessionEvent) => void;
+
+/** Plain-JSON snapshot of a session, for saving a game and restoring it later. */
+export interface SerializedSession {
+    players: SessionPlayer[];
+    engines: SerializedEngine[];
+    activePlayer: number;
+    tieBreakers?: TieBreakerId[];
+    /** Seed and draw position of the shared dice source, if it is seeded. */
+    dice?: DiceSourceState;
+}
+
+/**
+ * A game at one table: the players in seat order, an engine per player
+ * sharing one dice source, whose turn it is, and the table-wide undo history.
+ * Everything that changes the game goes through here so listeners (the page,
+ * a network host, CPU seats) see every action in order.
+ */
+export class GameSession {
+    private engines: SarzeeEngine[];
+    private activePlayer = 0;
+    private listeners = new Set<SessionListener>();
+
+    // Whose engine made each undoable action, so undo walks back the table's history
+    private undoOwners: number[] = [];
+    private redoOwners: number[] = [];
+
+    constructor(
+        private ruleSet: RuleSet = CLASSIC_RULES,
+        private players: SessionPlayer[] = [{ name: 'Player 1', diceColor: '#FFFFFF', cpu: null }],
+        private diceSource: DiceSource = new SeededDiceSource(createSeed()),
+        private tieBreakers: TieBreakerId[] = []
+    ) {
+        if (players.length === 0) throw new Error('A game needs at least one player');
+        this.players = players.map((p) => ({ ...p }));
+        this.engines = players.map(() => new SarzeeEngine(ruleSet, diceSource));
+    }
+
+    public serialize(): SerializedSession {
+        return {
+            players: this.getPlayers(),
+            engines: this.engines.map((e) => e.serialize()),
+            activePlayer: this.activePlayer,
+            tieBreakers: [...this.tieBreakers],
+            dice: this.getDiceState() ?? undefined,
+        };
+    }
+
+    /** Restore a saved session. Saves without a dice position continue on a fresh seed. */
+    public static deserialize(data: SerializedSession): GameSession {
+        if (!data.engines?.length || data.players?.length !== data.engines.length) {
+            throw new Error('Saved session must have one engine per player');
+        }
+        if (!(data.activePlayer >= 0 && data.activePlayer < data.engines.length)) {
+            throw new Error('Saved session has no such player');
+        }
+        const diceSource = data.dice ? SeededDiceSource.fromState(data.dice) : new SeededDiceSource(createSeed());
+        const engines = data.engines.map((e) => SarzeeEngine.deserialize(e, diceSource));
+        if (engines.some((e) => e.getRuleSet().id !== engines[0].getRuleSet().id)) {
+            throw new Error('Saved engines use different rule sets');
+        }
+        (data.tieBreakers ?? []).forEach(getTieBreaker);
+
+        const session = new GameSession(getRuleSet(data.engines[0].ruleSetId), data.players, diceSource, data.tieBreakers ?? []);
+        session.engines = engines;
+        session.activePlayer = data.activePlayer;
+        return session;
+    }
+
+    public subscribe(listener: SessionListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    public getRuleSet(): RuleSet {
+        return this.ruleSet;
+    }
+
+    public getPlayers(): SessionPlayer[] {
+        return this.players.map((p) => ({ ...p }));
+    }
+
+    public getPlayerCount(): number {
+        return this.players.length;
+    }
+
+    public getEngine(player: number): SarzeeEngine {
+        return this.engines[player];
+    }
+
+    public getEngines(): SarzeeEngine[] {
+        return [...this.engines];
+    }
+
+    public getActivePlayer(): number {
+        return this.activePlayer;
+    }
+
+    public getActiveEngine(): SarzeeEngine {
+        return this.engines[this.activePlayer];
+    }
+
+    public getDiceSource(): DiceSource {
+        return this.diceSource;
+    }
+
+    /** Seed and position of the dice, or null when they aren't seeded (scripted tests). */
+    public getDiceState(): DiceSourceState | null {
+        return this.diceSource instanceof SeededDiceSource ? this.diceSource.getState() : null;
+    }
+
+    public isGameOver(): boolean {
+        return this.engines.every((e) => e.getGameState().isGameOver);
+    }
+
+    public getTieBreakers(): TieBreakerId[] {
+        return [...this.tieBreakers];
+    }
+
+    /** Players by final score, highest first, split by the table's tie-breakers. */
+    public getStandings(): Standing[] {
+        return rankStandings(
+            this.players.map((p, i) => ({ name: p.name, state: this.engines[i].getGameState() })),
+            this.ruleSet,
+            this.tieBreakers
+        );
+    }
+
+    // --- Turn actions (always the active player's) ---
+
+    /** Roll the active player's unheld dice. Returns the dice after the roll. */
+    public roll(): DieValue[] {
+        let dice: DieValue[] = [];
+        this.act(() => {
+            dice = this.getActiveEngine().roll();
+        });
+        return dice;
+    }
+
+    /** Record a roll decided elsewhere (dev tools, a network host's outcome). */
+    public rollDice(values: DieValue[]) {
+        this.act(() => this.getActiveEngine().rollDice(values));
+    }
+
+    public toggleHold(index: number) {
+        this.act(() => this.getActiveEngine().toggleHold(index));
+    }
+
+    /** Score the active player's dice and pass the turn on. */
+    public commitScore(category: ScoreCategory) {
+        if (this.act(() => this.getActiveEngine().commitScore(category))) this.passTurn();
+    }
+
+    /**
+     * Out of time: score the best box for the dice on the table, or scratch the
+     * least valuable one. A turn that hasn't been rolled yet gets one roll first.
+     * Returns the box scored.
+     */
+    public autoCommit(): ScoreCategory {
+        if (this.getActiveEngine().getGameState().rollsLeft === 3) this.roll();
+        const { category } = greedyCategory(this.getActiveEngine());
+        this.commitScore(category);
+        return category;
+    }
+
+    // --- Undo / redo across the table ---
+
+    /** The last hold or commit at the table can be taken back, unless a computer made it. */
+    public canUndo(): boolean {
+        const owner = this.undoOwners[this.undoOwners.length - 1];
+        return owner !== undefined && !this.players[owner].cpu && this.engines[owner].canUndo();
+    }
+
+    public canRedo(): boolean {
+        return this.redoOwners.length > 0;
+    }
+
+    /** Player whose move undo would take back, or null. */
+    public getUndoOwner(): number | null {
+        return this.canUndo() ? this.undoOwners[this.undoOwners.length - 1] : null;
+    }
+
+    /** Take back the table's last move; the turn goes back to whoever made it. */
+    public undo(): EngineAction | null {
+        if (!this.canUndo()) return null;
+        const owner = this.undoOwners.pop()!;
+        const action = this.engines[owner].undo()!;
+        this.redoOwners.push(owner);
+        this.activePlayer = owner;
+        this.emit({ type: 'undo', player: owner, action });
+        this.emit({ type: 'turn', player: owner });
+        return action;
+    }
+
+    public redo(): EngineAction | null {
+        const owner = this.redoOwners.pop();
+        if (owner === undefined) return null;
+        const action = this.engines[owner].redo();
+        if (!action) return null;
+        this.undoOwners.push(owner);
+        this.activePlayer = owner;
+        this.emit({ type: 'redo', player: owner, action });
+        // A redone commit hands the dice to the next player again
+        if (action.type === 'commitScore') this.passTurn();
+        else this.emit({ type: 'turn', player: owner });
+        return action;
+    }
+
+    // Run an engine action for the active player; rejected actions aren't logged or announced
+    private act(run: () => void): boolean {
+        const player = this.activePlayer;
+        const engine = this.engines[player];
+        const before = engine.getActionCount();
+        run();
+        if (engine.getActionCount() === before) return false;
+
+        this.undoOwners.push(player);
+        this.redoOwners = [];
+        this.emit({ type: 'action', player, action: engine.getLastAction()! });
+        return true;
+    }
+
+    private passTurn() {
+        this.activePlayer = (this.activePlayer + 1) % this.players.length;
+        this.emit({ type: 'turn', player: this.activePlayer });
+        if (this.isGameOver()) this.emit({ type: 'gameOver', standings: this.getStandings() });
+    }
+
+    private emit(event: SessionEvent) {
+        this.listeners.forEach((listener) => listener(event));
+    }
+}
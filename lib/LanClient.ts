@@ -0,0 +1,60 @@
+import { ClientMessage, ServerMessage } from './lanProtocol';
+
+/** Messages from the relay, plus `lost` when the connection drops without being closed here. */
+export type LanEvent = ServerMessage | { type: 'lost' };
+export type LanListener = (event: LanEvent) => void;
+
+/** Browser side of the LAN relay connection. */
+export class LanClient {
+    private socket: WebSocket | null = null;
+    private listeners = new Set<LanListener>();
+
+    constructor(public readonly url: string) {}
+
+    /** Open the connection; rejects if the relay can't be reached. */
+    public connect(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = new WebSocket(this.url);
+            socket.onopen = () => {
+                this.socket = socket;
+                resolve();
+            };
+            socket.onerror = () => reject(new Error(`Could not reach the game server at ${this.url}`));
+            socket.onmessage = (e) => {
+                let message: ServerMessage;
+                try {
+                    message = JSON.parse(String(e.data));
+                } catch {
+                    return;
+                }
+                this.listeners.forEach((listener) => listener(message));
+            };
+            socket.onclose = () => {
+                if (this.socket !== socket) return; // closed on purpose, or never opened
+                this.socket = null;
+                this.listeners.forEach((listener) => listener({ type: 'lost' }));
+            };
+        });
+    }
+
+    public isConnected(): boolean {
+        return this.socket?.readyState === WebSocket.OPEN;
+    }
+
+    public send(message: ClientMessage) {
+        if (this.isConnected()) this.socket!.send(JSON.stringify(message));
+    }
+
+    public subscribe(listener: LanListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    public close() {
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close();
+    }
+}
@@ -0,0 +1,114 @@
+import { LanPeer, LanRelay } from './LanRelay';
+import { LanSnapshot, ServerMessage } from './lanProtocol';
+import { ScoreCategory } from './types';
+import assert from 'assert';
+
+// A peer that just remembers what it was sent
+function stubPeer(): LanPeer & { inbox: ServerMessage[]; last: () => ServerMessage } {
+    const inbox: ServerMessage[] = [];
+    return { inbox, send: (m) => inbox.push(m), last: () => inbox[inbox.length - 1] };
+}
+
+async function runTests() {
+    console.log("Running LanRelay Tests...");
+
+    console.log("Test 1: Hosts get a room code that guests can join by");
+    let n = 0;
+    const relay = new LanRelay(() => (n++ % 24) / 24); // codes ABCD, EFGH, ...
+    const host = stubPeer();
+    relay.handle(host, { type: 'create', name: 'Ann' });
+    const created = host.last();
+    assert.strictEqual(created.type, 'created');
+    const code = created.type === 'created' ? created.code : '';
+    assert.strictEqual(code, 'ABCD');
+
+    const guest = stubPeer();
+    relay.handle(guest, { type: 'join', code: ' abcd ', name: '  Bo  ' });
+    const joined = guest.inbox[0];
+    assert.ok(joined.type === 'joined' && joined.memberId === 'm2' && joined.host === 'Ann' && joined.hostId === 'm1');
+    const guestToken = joined.token;
+    assert.deepStrictEqual(host.last(), { type: 'members', members: [{ id: 'm2', name: 'Bo' }] });
+
+    const lost = stubPeer();
+    relay.handle(lost, { type: 'join', code: 'ZZZZ', name: 'Cy' });
+    assert.strictEqual(lost.last().type, 'error');
+    console.log("  PASS");
+
+    console.log("Test 2: Intents go to the host only; snapshots from the host reach every guest");
+    relay.handle(guest, { type: 'intent', intent: { type: 'commitScore', category: ScoreCategory.Chance } });
+    assert.deepStrictEqual(host.last(), { type: 'intent', from: 'm2', intent: { type: 'commitScore', category: ScoreCategory.Chance } });
+
+    const snapshot = { seq: 1, seats: [null, 'm2'], board: 'the-cafe' } as unknown as LanSnapshot;
+    const before = guest.inbox.length;
+    relay.handle(guest, { type: 'snapshot', snapshot }); // guests can't speak for the host
+    assert.strictEqual(guest.inbox.length, before);
+    relay.handle(host, { type: 'snapshot', snapshot });
+    assert.deepStrictEqual(guest.last(), { type: 'snapshot', snapshot });
+    console.log("  PASS");
+
+    console.log("Test 3: Spectators are announced as such, see snapshots and can't act");
+    const watcher = stubPeer();
+    relay.handle(watcher, { type: 'join', code, name: 'TV', spectate: true });
+    assert.deepStrictEqual(host.last(), { type: 'members', members: [{ id: 'm2', name: 'Bo' }, { id: 'm3', name: 'TV', spectator: true }] });
+    const hostInbox = host.inbox.length;
+    relay.handle(watcher, { type: 'intent', intent: { type: 'roll' } });
+    assert.strictEqual(host.inbox.length, hostInbox);
+    const watched = { ...snapshot, seq: 2 };
+    relay.handle(host, { type: 'snapshot', snapshot: watched });
+    assert.deepStrictEqual(watcher.last(), { type: 'snapshot', snapshot: watched });
+    relay.handle(watcher, { type: 'leave' });
+    console.log("  PASS");
+
+    console.log("Test 4: A dropped guest keeps its seat and gets it back, up to date, with its token");
+    relay.disconnect(guest);
+    assert.deepStrictEqual(host.last(), { type: 'members', members: [{ id: 'm2', name: 'Bo', offline: true }] });
+    const later = { ...snapshot, seq: 3 };
+    relay.handle(host, { type: 'snapshot', snapshot: later });
+    relay.handle(host, { type: 'snapshot', snapshot }); // out of order: dropped
+    const back = stubPeer();
+    relay.handle(back, { type: 'rejoin', code, token: 'm2.wrong' });
+    assert.strictEqual(back.last().type, 'error');
+    relay.handle(back, { type: 'rejoin', code, token: guestToken });
+    assert.strictEqual(back.inbox[1].type, 'joined');
+    assert.deepStrictEqual(back.inbox[2], { type: 'snapshot', snapshot: later });
+    assert.deepStrictEqual(host.last(), { type: 'members', members: [{ id: 'm2', name: 'Bo' }] });
+    relay.handle(back, { type: 'resync' });
+    assert.deepStrictEqual(back.last(), { type: 'snapshot', snapshot: later });
+    console.log("  PASS");
+
+    console.log("Test 5: A dropped host hands over to the longest-standing player; with no player left to take over the room closes");
+    const watcher2 = stubPeer();
+    relay.handle(watcher2, { type: 'join', code, name: 'TV', spectate: true });
+    relay.disconnect(host);
+    assert.deepStrictEqual(back.last(), { type: 'members', members: [{ id: 'm1', name: 'Ann', offline: true }, { id: 'm4', name: 'TV', spectator: true }] });
+    assert.ok(back.inbox.some((m) => m.type === 'host' && m.memberId === 'm2' && m.previous === 'm1'));
+    relay.handle(back, { type: 'intent', intent: { type: 'roll' } }); // the new host has nobody to ask
+    relay.handle(back, { type: 'snapshot', snapshot: { ...snapshot, seq: 4 } });
+    assert.strictEqual(watcher2.last().type, 'snapshot');
+
+    relay.handle(back, { type: 'leave' }); // only a spectator is left to take over: the room closes
+    assert.deepStrictEqual(watcher2.last(), { type: 'closed', reason: 'The host left the game' });
+    assert.strictEqual(relay.getRoomCount(), 0);
+    relay.handle(watcher2, { type: 'create', name: 'TV' }); // free to host a new game
+    assert.strictEqual(watcher2.last().type, 'created');
+    console.log("  PASS");
+
+    console.log("Test 6: Valid JSON of the wrong shape gets an error instead of taking the relay down");
+    const prober = stubPeer();
+    const junk = [null, 42, 'join', [], {}, { type: 'join' }, { type: 'join', code: 7, name: 'X' }, { type: 'create' },
+        { type: 'rejoin', code: 'ABCD' }, { type: 'intent' }, { type: 'snapshot', snapshot: null }, { type: 'explode' }];
+    for (const message of junk) {
+        relay.handle(prober, message);
+        assert.deepStrictEqual(prober.last(), { type: 'error', message: 'Unreadable message' });
+    }
+    relay.handle(prober, { type: 'join', code: 'ZZZZ', name: 'Cy' }); // still answering
+    assert.deepStrictEqual(prober.last(), { type: 'error', message: 'No game with that code' });
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
@@ -0,0 +1,213 @@
+import { isClientMessage, LanMember, LanSnapshot, ROOM_CODE_ALPHABET, ROOM_CODE_LENGTH, ServerMessage, normalizeRoomCode } from './lanProtocol';
+
+/** One connected device, however it is connected (a WebSocket in the server, a stub in tests). */
+export interface LanPeer {
+    send(message: ServerMessage): void;
+}
+
+interface Member {
+    id: string;
+    name: string;
+    token: string;
+    spectator: boolean;
+    peer: LanPeer | null; // null while dropped
+}
+
+interface Room {
+    code: string;
+    hostId: string;
+    members: Map<string, Member>; // host included, in joining order
+    snapshot: LanSnapshot | null; // latest from the host, for rejoins and resyncs
+}
+
+/**
+ * Room bookkeeping for the LAN relay. It knows nothing about the game: hosts
+ * open rooms, guests join them by code, intents go to the host and snapshots
+ * go to everyone else. Members that drop keep their place until they rejoin
+ * with their token; a room goes away once nobody in it is connected.
+ */
+export class LanRelay {
+    private rooms = new Map<string, Room>();
+    private memberships = new Map<LanPeer, { code: string; id: string }>();
+    private tokens = new Map<string, { code: string; id: string }>();
+    private nextId = 1;
+
+    constructor(private random: () => number = Math.random) {}
+
+    public getRoomCount(): number {
+        return this.rooms.size;
+    }
+
+    /** Act on a message from a device; takes parsed JSON as it came off the socket. */
+    public handle(peer: LanPeer, message: unknown) {
+        if (!isClientMessage(message)) return peer.send({ type: 'error', message: 'Unreadable message' });
+        const membership = this.memberships.get(peer);
+        const room = membership ? this.rooms.get(membership.code) : undefined;
+
+        switch (message.type) {
+            case 'create': {
+                if (membership) return peer.send({ type: 'error', message: 'Already in a room' });
+                const code = this.newCode();
+                const target: Room = { code, hostId: '', members: new Map(), snapshot: null };
+                this.rooms.set(code, target);
+                const host = this.addMember(target, peer, message.name, false);
+                target.hostId = host.id;
+                return peer.send({ type: 'created', code, memberId: host.id, token: host.token });
+            }
+            case 'join': {
+                if (membership) return peer.send({ type: 'error', message: 'Already in a room' });
+                const target = this.rooms.get(normalizeRoomCode(message.code));
+                if (!target) return peer.send({ type: 'error', message: 'No game with that code' });
+                const member = this.addMember(target, peer, message.name, !!message.spectate);
+                this.welcome(target, member);
+                return this.announceMembers(target);
+            }
+            case 'rejoin': {
+                if (membership) return peer.send({ type: 'error', message: 'Already in a room' });
+                const held = this.tokens.get(message.token);
+                const target = held && held.code === normalizeRoomCode(message.code) ? this.rooms.get(held.code) : undefined;
+                const member = held && target?.members.get(held.id);
+                if (!target || !member) return peer.send({ type: 'error', message: 'That seat is no longer held' });
+
+                if (member.peer) this.memberships.delete(member.peer); // the old connection hasn't noticed it died
+                member.peer = peer;
+                this.memberships.set(peer, { code: target.code, id: member.id });
+                // A room left without a host takes the first player to come back
+                const previous = target.hostId;
+                const promoted = !target.members.get(previous)?.peer && !member.spectator;
+                if (promoted) target.hostId = member.id;
+                this.welcome(target, member);
+                if (promoted) this.announceHost(target, previous, member.id);
+                return this.announceMembers(target);
+            }
+            case 'leave': {
+                if (!room || !membership) return;
+                this.memberships.delete(peer);
+                const member = room.members.get(membership.id)!;
+                room.members.delete(member.id);
+                this.tokens.delete(member.token);
+                if (!this.anyoneOnline(room)) return this.closeRoom(room);
+                if (member.id === room.hostId && !this.migrate(room)) return this.closeRoom(room, 'The host left the game');
+                return this.announceMembers(room);
+            }
+            case 'intent': {
+                if (!room || !membership || membership.id === room.hostId) return;
+                if (room.members.get(membership.id)?.spectator) return;
+                return room.members.get(room.hostId)?.peer?.send({ type: 'intent', from: membership.id, intent: message.intent });
+            }
+            case 'snapshot': {
+                if (!room || membership?.id !== room.hostId) return;
+                if (room.snapshot && message.snapshot.seq <= room.snapshot.seq) return; // stale
+                room.snapshot = message.snapshot;
+                room.members.forEach((m) => {
+                    if (m.id !== room.hostId) m.peer?.send({ type: 'snapshot', snapshot: message.snapshot });
+                });
+                return;
+            }
+            case 'resync': {
+                if (room?.snapshot) peer.send({ type: 'snapshot', snapshot: room.snapshot });
+                return;
+            }
+        }
+    }
+
+    /** A device went away without leaving: it keeps its place, and a dropped host hands over authority. */
+    public disconnect(peer: LanPeer) {
+        const membership = this.memberships.get(peer);
+        if (!membership) return;
+        this.memberships.delete(peer);
+        const room = this.rooms.get(membership.code);
+        const member = room?.members.get(membership.id);
+        if (!room || !member) return;
+
+        member.peer = null;
+        if (!this.anyoneOnline(room)) return this.closeRoom(room);
+        if (member.id === room.hostId) this.migrate(room); // with no player online, the room waits for one
+        this.announceMembers(room);
+    }
+
+    private addMember(room: Room, peer: LanPeer, name: string, spectator: boolean): Member {
+        const id = this.newId();
+        const member: Member = { id, name: cleanName(name), token: this.newToken(id), spectator, peer };
+        room.members.set(id, member);
+        this.memberships.set(peer, { code: room.code, id });
+        this.tokens.set(member.token, { code: room.code, id });
+        return member;
+    }
+
+    // Tell a (re)joining member where it stands and bring it up to date
+    private welcome(room: Room, member: Member) {
+        const host = room.members.get(room.hostId)!;
+        member.peer!.send({
+            type: 'joined',
+            code: room.code,
+            memberId: member.id,
+            token: member.token,
+            host: host.name,
+            hostId: host.id,
+            ...(member.spectator ? { spectator: true } : {}),
+        });
+        if (room.snapshot) member.peer!.send({ type: 'snapshot', snapshot: room.snapshot });
+    }
+
+    // Hand authority to the longest-standing player still connected
+    private migrate(room: Room): boolean {
+        const previous = room.hostId;
+        const next = [...room.members.values()].find((m) => m.peer && !m.spectator && m.id !== previous);
+        if (!next) return false;
+        room.hostId = next.id;
+        this.announceHost(room, previous);
+        return true;
+    }
+
+    private announceHost(room: Room, previous: string, except?: string) {
+        const host = room.members.get(room.hostId)!;
+        room.members.forEach((m) => {
+            if (m.id !== except) m.peer?.send({ type: 'host', memberId: host.id, name: host.name, previous });
+        });
+    }
+
+    private announceMembers(room: Room) {
+        const members: LanMember[] = [...room.members.values()]
+            .filter((m) => m.id !== room.hostId)
+            .map((m) => ({ id: m.id, name: m.name, ...(m.spectator ? { spectator: true } : {}), ...(m.peer ? {} : { offline: true }) }));
+        room.members.forEach((m) => m.peer?.send({ type: 'members', members }));
+    }
+
+    private anyoneOnline(room: Room): boolean {
+        return [...room.members.values()].some((m) => m.peer);
+    }
+
+    private closeRoom(room: Room, reason?: string) {
+        this.rooms.delete(room.code);
+        room.members.forEach((m) => {
+            this.tokens.delete(m.token);
+            if (!m.peer) return;
+            this.memberships.delete(m.peer);
+            if (reason) m.peer.send({ type: 'closed', reason });
+        });
+    }
+
+    private newCode(): string {
+        for (;;) {
+            let code = '';
+            for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+                code += ROOM_CODE_ALPHABET[Math.floor(this.random() * ROOM_CODE_ALPHABET.length)];
+            }
+            if (!this.rooms.has(code)) return code;
+        }
+    }
+
+    private newId(): string {
+        return `m${this.nextId++}`;
+    }
+
+    // Unique through the member id; the random part keeps it from being guessed
+    private newToken(id: string): string {
+        let secret = '';
+        for (let i = 0; i < 16; i++) secret += Math.floor(this.random() * 36).toString(36);
+        return `${id}.${secret}`;
+    }
+}
+
+const cleanName = (name: string) => (typeof name === 'string' ? name.trim().slice(0, 24) : '') || 'Player';
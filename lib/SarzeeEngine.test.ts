@@ -1,5 +1,8 @@
 import { SarzeeEngine } from './SarzeeEngine';
-import { ScoreCategory } from './types';
+import { ScriptedDiceSource, SeededDiceSource } from './DiceSource';
+import { GameReplay } from './GameReplay';
+import { GENERALA_RULES, MAXI_YATZY_RULES, YATZY_RULES } from './rulesets';
+import { DieValue, ScoreCategory } from './types';
 import assert from 'assert';
 
 async function runTests() {
@@ -61,6 +64,193 @@ async function runTests() {
     assert.strictEqual(state.rollsLeft, 3);
     console.log("  PASS");
 
+    // Test Joker Rules
+    console.log("Test 6: Extra Yahtzee is forced into the matching upper box");
+    const joker = new SarzeeEngine();
+    joker.rollDice([6, 6, 6, 6, 6]);
+    joker.commitScore(ScoreCategory.Yahtzee);
+    joker.rollDice([4, 4, 4, 4, 4]);
+    assert.deepStrictEqual(joker.getLegalCategories(), [ScoreCategory.Fours]);
+    assert.throws(() => joker.commitScore(ScoreCategory.LargeStraight));
+    joker.commitScore(ScoreCategory.Fours);
+    state = joker.getGameState();
+    assert.strictEqual(state.scorecard[ScoreCategory.Fours], 20);
+    assert.strictEqual(state.yahtzeeBonus, 100);
+    console.log("  PASS");
+
+    console.log("Test 7: Joker scores fixed lower values when the upper box is full");
+    joker.rollDice([4, 4, 4, 4, 4]);
+    assert.ok(!joker.getLegalCategories().includes(ScoreCategory.Ones));
+    assert.strictEqual(joker.calculatePotentialScore(ScoreCategory.FullHouse), 25);
+    assert.strictEqual(joker.calculatePotentialScore(ScoreCategory.SmallStraight), 30);
+    assert.strictEqual(joker.calculatePotentialScore(ScoreCategory.LargeStraight), 40);
+    joker.commitScore(ScoreCategory.LargeStraight);
+    state = joker.getGameState();
+    assert.strictEqual(state.scorecard[ScoreCategory.LargeStraight], 40);
+    assert.strictEqual(state.yahtzeeBonus, 200);
+    console.log("  PASS");
+
+    console.log("Test 8: Scratched Yahtzee box still plays Jokers but earns no bonus");
+    const scratched = new SarzeeEngine();
+    scratched.rollDice([1, 2, 3, 4, 6]);
+    scratched.commitScore(ScoreCategory.Yahtzee);
+    scratched.rollDice([2, 2, 2, 2, 2]);
+    scratched.commitScore(ScoreCategory.Twos);
+    state = scratched.getGameState();
+    assert.strictEqual(state.scorecard[ScoreCategory.Twos], 10);
+    assert.strictEqual(state.yahtzeeBonus, 0);
+    console.log("  PASS");
+
+    // Test Section Totals
+    console.log("Test 9: Engine owns upper bonus, section totals and grand total");
+    const totals = new SarzeeEngine();
+    const upperRolls: [ScoreCategory, DieValue][] = [
+        [ScoreCategory.Threes, 3],
+        [ScoreCategory.Fours, 4],
+        [ScoreCategory.Fives, 5],
+        [ScoreCategory.Sixes, 6],
+    ];
+    for (const [cat, face] of upperRolls) {
+        totals.rollDice([face, face, face, face, 1]);
+        totals.commitScore(cat);
+    }
+    totals.rollDice([1, 2, 3, 4, 5]);
+    totals.commitScore(ScoreCategory.LargeStraight);
+    state = totals.getGameState();
+    assert.strictEqual(state.upperSubtotal, 72);
+    assert.strictEqual(state.upperBonus, 35);
+    assert.strictEqual(state.lowerTotal, 40);
+    assert.strictEqual(state.totalScore, 72 + 35 + 40);
+    console.log("  PASS");
+
+    // Test Rule Sets
+    console.log("Test 10: Yatzy scores pairs, fixed straights and a 50 upper bonus");
+    const yatzy = new SarzeeEngine(YATZY_RULES);
+    yatzy._forceDice([6, 6, 3, 3, 1]);
+    assert.strictEqual(yatzy.calculatePotentialScore(ScoreCategory.OnePair), 12);
+    assert.strictEqual(yatzy.calculatePotentialScore(ScoreCategory.TwoPairs), 18);
+    yatzy._forceDice([2, 3, 4, 5, 6]);
+    assert.strictEqual(yatzy.calculatePotentialScore(ScoreCategory.LargeStraight), 20);
+    assert.strictEqual(yatzy.calculatePotentialScore(ScoreCategory.SmallStraight), 0);
+    yatzy._forceDice([5, 5, 5, 2, 2]);
+    assert.strictEqual(yatzy.calculatePotentialScore(ScoreCategory.FullHouse), 19);
+    state = yatzy.getGameState();
+    assert.strictEqual(state.ruleSetId, 'yatzy');
+    assert.strictEqual(Object.keys(state.scorecard).length, YATZY_RULES.turns);
+    console.log("  PASS");
+
+    console.log("Test 11: Maxi Yatzy rolls six dice");
+    const maxi = new SarzeeEngine(MAXI_YATZY_RULES);
+    assert.throws(() => maxi.rollDice([1, 2, 3, 4, 5]));
+    maxi.rollDice([4, 4, 4, 2, 2, 2]);
+    assert.strictEqual(maxi.calculatePotentialScore(ScoreCategory.Castle), 18);
+    assert.strictEqual(maxi.calculatePotentialScore(ScoreCategory.ThreePairs), 0);
+    maxi.toggleHold(5);
+    assert.strictEqual(maxi.getGameState().heldDice[5], true);
+    console.log("  PASS");
+
+    console.log("Test 12: Generala pays served hands and ends after eleven turns");
+    const generala = new SarzeeEngine(GENERALA_RULES);
+    generala.rollDice([3, 3, 3, 6, 6]);
+    assert.strictEqual(generala.calculatePotentialScore(ScoreCategory.FullHouse), 35);
+    generala.toggleHold(0);
+    generala.rollDice([3, 3, 3, 6, 6]);
+    assert.strictEqual(generala.calculatePotentialScore(ScoreCategory.FullHouse), 30);
+    for (const rule of GENERALA_RULES.categories) {
+        generala.rollDice([1, 2, 3, 4, 6]);
+        generala.commitScore(rule.id);
+    }
+    state = generala.getGameState();
+    assert.strictEqual(state.isGameOver, true);
+    assert.strictEqual(state.upperBonus, 0);
+    console.log("  PASS");
+
+    console.log("Test 13: Serialized engines restore mid-turn");
+    const saved = new SarzeeEngine(YATZY_RULES);
+    saved.rollDice([2, 2, 5, 5, 6]);
+    saved.toggleHold(0);
+    saved.commitScore(ScoreCategory.TwoPairs);
+    saved.rollDice([4, 4, 4, 1, 3]);
+    saved.toggleHold(1);
+    const restored = SarzeeEngine.deserialize(JSON.parse(JSON.stringify(saved.serialize())));
+    assert.deepStrictEqual(restored.getGameState(), saved.getGameState());
+    assert.strictEqual(restored.getRuleSet().id, 'yatzy');
+    restored.rollDice([1, 4, 1, 1, 1]);
+    assert.deepStrictEqual(restored.getGameState().diceValues, [1, 4, 1, 1, 1]);
+    assert.throws(() => SarzeeEngine.deserialize({ ruleSetId: 'maxi-yatzy', state: saved.getGameState() }));
+    console.log("  PASS");
+
+    console.log("Test 14: Undo and redo holds and commits, but never rolls");
+    const undoable = new SarzeeEngine();
+    undoable.rollDice([3, 3, 3, 2, 2]);
+    assert.strictEqual(undoable.canUndo(), false);
+    undoable.toggleHold(0);
+    undoable.commitScore(ScoreCategory.Chance);
+    assert.strictEqual(undoable.getGameState().currentTurn, 2);
+    assert.deepStrictEqual(undoable.undo(), { type: 'commitScore', category: ScoreCategory.Chance });
+    state = undoable.getGameState();
+    assert.strictEqual(state.currentTurn, 1);
+    assert.strictEqual(state.scorecard[ScoreCategory.Chance], null);
+    assert.strictEqual(state.heldDice[0], true);
+    undoable.undo();
+    assert.strictEqual(undoable.getGameState().heldDice[0], false);
+    assert.strictEqual(undoable.undo(), null); // the roll is a barrier
+    undoable.redo();
+    undoable.redo();
+    assert.strictEqual(undoable.getGameState().scorecard[ScoreCategory.Chance], 13);
+    undoable.undo();
+    undoable.commitScore(ScoreCategory.FullHouse);
+    assert.strictEqual(undoable.canRedo(), false);
+    assert.strictEqual(undoable.getActionLog().length, 3);
+    console.log("  PASS");
+
+    console.log("Test 15: Dice sources drive rolls and the history records them");
+    const scripted = new SarzeeEngine(undefined, new ScriptedDiceSource([6, 6, 1, 2, 6, 6, 5]));
+    assert.deepStrictEqual(scripted.roll(), [6, 6, 1, 2, 6]);
+    scripted.toggleHold(0);
+    scripted.toggleHold(1);
+    scripted.toggleHold(4);
+    assert.deepStrictEqual(scripted.roll(), [6, 6, 6, 5, 6]);
+    assert.deepStrictEqual(scripted.getRollHistory(), [[6, 6, 1, 2, 6], [6, 6, 6, 5, 6]]);
+    assert.throws(() => scripted.roll(), /exhausted/);
+
+    const seededRolls = (source: SeededDiceSource) => {
+        const e = new SarzeeEngine(undefined, source);
+        e.roll();
+        e.toggleHold(2);
+        e.roll();
+        return e.getRollHistory();
+    };
+    assert.deepStrictEqual(seededRolls(new SeededDiceSource(1234)), seededRolls(new SeededDiceSource(1234)));
+    const source = new SeededDiceSource(99);
+    const first = [source.next(), source.next(), source.next()];
+    const resumed = SeededDiceSource.fromState({ seed: 99, position: 1 });
+    assert.deepStrictEqual([resumed.next(), resumed.next()], first.slice(1));
+    console.log("  PASS");
+
+    console.log("Test 16: Replay interleaves the players' turns and rebuilds their states");
+    const shared = new ScriptedDiceSource([1, 2, 3, 4, 5, 6, 6, 6, 6, 6, 2, 2, 2, 3, 3]);
+    const alice = new SarzeeEngine(undefined, shared);
+    const bob = new SarzeeEngine(undefined, shared);
+    alice.roll();
+    alice.commitScore(ScoreCategory.LargeStraight);
+    bob.roll();
+    bob.commitScore(ScoreCategory.Yahtzee);
+    alice.roll();
+    alice.commitScore(ScoreCategory.FullHouse);
+
+    const replay = GameReplay.fromEngines([alice, bob]);
+    assert.strictEqual(replay.length, 6);
+    assert.deepStrictEqual(replay.turnStarts(), [0, 2, 4]);
+    assert.deepStrictEqual([0, 1, 2, 3, 4, 5].map((i) => replay.getFrame(i)!.player), [0, 0, 1, 1, 0, 0]);
+    assert.strictEqual(replay.getFrame(4)!.turn, 2);
+    assert.strictEqual(replay.statesAt(-1)[0].totalScore, 0);
+    assert.strictEqual(replay.statesAt(1)[0].scorecard[ScoreCategory.LargeStraight], 40);
+    assert.strictEqual(replay.statesAt(1)[1].totalScore, 0);
+    assert.strictEqual(replay.statesAt(3)[1].scorecard[ScoreCategory.Yahtzee], 50);
+    assert.deepStrictEqual(replay.statesAt(5), [alice.getGameState(), bob.getGameState()]);
+    console.log("  PASS");
+
     console.log("ALL TESTS PASSED");
 }
 
@@ -1,36 +1,206 @@
-import { DieValue, GameState, ScoreCategory, Scorecard } from './types';
+import { DiceSource, RandomDiceSource } from './DiceSource';
+import { CLASSIC_RULES, getRuleSet } from './rulesets';
+import { DieValue, GameState, RuleSet, RuleSetId, ScoreCategory, Scorecard, UPPER_CATEGORIES } from './types';
+
+/** One recorded player action. Rolls carry their outcome so the log replays exactly. */
+export type EngineAction =
+    | { type: 'roll'; dice: DieValue[] }
+    | { type: 'toggleHold'; index: number }
+    | { type: 'commitScore'; category: ScoreCategory };
+
+/** Plain-JSON snapshot of an engine, for saving a game and restoring it later. */
+export interface SerializedEngine {
+    ruleSetId: RuleSetId;
+    state: GameState;
+    /** Action log and the state it starts from; older saves may not have them. */
+    baseState?: GameState;
+    actions?: EngineAction[];
+}
 
 export class SarzeeEngine {
     private state: GameState;
 
-    constructor() {
+    // Undo works by replaying `actions` on top of `baseState`; rolls are never undone.
+    private baseState: GameState;
+    private actions: EngineAction[] = [];
+    private undone: EngineAction[] = [];
+
+    constructor(private ruleSet: RuleSet = CLASSIC_RULES, private diceSource: DiceSource = new RandomDiceSource()) {
         this.state = this.getInitialState();
+        this.baseState = this.getGameState();
     }
 
     private getInitialState(): GameState {
-        const emptyScorecard: Scorecard = Object.values(ScoreCategory).reduce((acc, category) => {
-            acc[category] = null;
-            return acc;
-        }, {} as Scorecard);
-
         return {
+            ruleSetId: this.ruleSet.id,
             currentTurn: 1,
             rollsLeft: 3,
-            diceValues: [1, 1, 1, 1, 1], // Initial dummy values
-            heldDice: [false, false, false, false, false],
-            scorecard: emptyScorecard,
+            diceValues: new Array(this.ruleSet.diceCount).fill(1), // Initial dummy values
+            heldDice: new Array(this.ruleSet.diceCount).fill(false),
+            scorecard: this.getEmptyScorecard(),
             isGameOver: false,
+            upperSubtotal: 0,
+            upperBonus: 0,
+            lowerTotal: 0,
             totalScore: 0,
             yahtzeeBonus: 0,
         };
     }
 
+    private getEmptyScorecard(): Scorecard {
+        return this.ruleSet.categories.reduce((acc, rule) => {
+            acc[rule.id] = null;
+            return acc;
+        }, {} as Scorecard);
+    }
+
+    public getRuleSet(): RuleSet {
+        return this.ruleSet;
+    }
+
     public getGameState(): GameState {
         // Return a copy to prevent mutation
         return JSON.parse(JSON.stringify(this.state));
     }
 
+    public serialize(): SerializedEngine {
+        return {
+            ruleSetId: this.ruleSet.id,
+            state: this.getGameState(),
+            baseState: JSON.parse(JSON.stringify(this.baseState)),
+            actions: this.getActionLog(),
+        };
+    }
+
+    public static deserialize(data: SerializedEngine, diceSource?: DiceSource): SarzeeEngine {
+        const ruleSet = getRuleSet(data.ruleSetId);
+        const state = data.state;
+        if (!state || state.ruleSetId !== ruleSet.id) {
+            throw new Error('Saved engine does not match its rule set');
+        }
+        if (state.diceValues?.length !== ruleSet.diceCount || state.heldDice?.length !== ruleSet.diceCount) {
+            throw new Error(`Saved engine must have ${ruleSet.diceCount} dice`);
+        }
+        if (ruleSet.categories.some((c) => state.scorecard?.[c.id] === undefined)) {
+            throw new Error('Saved scorecard is missing categories');
+        }
+
+        const engine = new SarzeeEngine(ruleSet, diceSource);
+        engine.state = JSON.parse(JSON.stringify(state));
+        engine.rebase();
+
+        // Keep the log (and with it undo and the roll history) if it replays to the saved state
+        if (data.baseState && data.actions) {
+            const replay = new SarzeeEngine(ruleSet);
+            replay.state = JSON.parse(JSON.stringify(data.baseState));
+            try {
+                data.actions.forEach((a) => replay.apply(a));
+            } catch {
+                return engine;
+            }
+            if (JSON.stringify(replay.state) === JSON.stringify(engine.state)) {
+                engine.baseState = JSON.parse(JSON.stringify(data.baseState));
+                engine.actions = JSON.parse(JSON.stringify(data.actions));
+            }
+        }
+        return engine;
+    }
+
+    public getActionLog(): EngineAction[] {
+        return JSON.parse(JSON.stringify(this.actions));
+    }
+
+    /** Length of the action log, without copying it. */
+    public getActionCount(): number {
+        return this.actions.length;
+    }
+
+    /** A copy of the newest action in the log, if there is one. */
+    public getLastAction(): EngineAction | undefined {
+        const last = this.actions[this.actions.length - 1];
+        return last && JSON.parse(JSON.stringify(last));
+    }
+
+    /** Every roll made since the log started, oldest first (all dice, held ones included). */
+    public getRollHistory(): DieValue[][] {
+        return this.actions
+            .filter((a): a is Extract<EngineAction, { type: 'roll' }> => a.type === 'roll')
+            .map((a) => [...a.dice]);
+    }
+
+    /** The last action can be taken back unless it was a roll (the dice have been seen). */
+    public canUndo(): boolean {
+        const last = this.actions[this.actions.length - 1];
+        return !!last && last.type !== 'roll';
+    }
+
+    public canRedo(): boolean {
+        return this.undone.length > 0;
+    }
+
+    /** Take back the last hold toggle or score commit. Returns the undone action. */
+    public undo(): EngineAction | null {
+        if (!this.canUndo()) return null;
+        const action = this.actions.pop()!;
+        this.undone.push(action);
+
+        this.state = JSON.parse(JSON.stringify(this.baseState));
+        for (const a of this.actions) this.apply(a);
+        return action;
+    }
+
+    public redo(): EngineAction | null {
+        const action = this.undone.pop();
+        if (!action) return null;
+        this.apply(action);
+        this.actions.push(action);
+        return action;
+    }
+
     public toggleHold(index: number) {
+        this.record({ type: 'toggleHold', index });
+    }
+
+    /** Roll the unheld dice from the engine's dice source. Returns the dice after the roll. */
+    public roll(): DieValue[] {
+        if (this.state.rollsLeft <= 0 || this.state.isGameOver) {
+            throw new Error('No rolls left or game is over');
+        }
+        const values = this.state.diceValues.map((d, i) => (this.state.heldDice[i] ? d : this.diceSource.next()));
+        this.rollDice(values);
+        return [...this.state.diceValues];
+    }
+
+    /** Record a roll decided elsewhere (scripted tests, replays, dev tools). */
+    public rollDice(newValues: DieValue[]) {
+        this.record({ type: 'roll', dice: [...newValues] });
+    }
+
+    public commitScore(category: ScoreCategory) {
+        this.record({ type: 'commitScore', category });
+    }
+
+    /** Apply a fresh action and log it; a new action ends any redo chain. */
+    private record(action: EngineAction) {
+        const before = JSON.stringify(this.state);
+        this.apply(action);
+        if (JSON.stringify(this.state) === before) return; // rejected, nothing happened
+        this.actions.push(action);
+        this.undone = [];
+    }
+
+    private apply(action: EngineAction) {
+        switch (action.type) {
+            case 'roll':
+                return this.applyRoll(action.dice);
+            case 'toggleHold':
+                return this.applyToggleHold(action.index);
+            case 'commitScore':
+                return this.applyCommit(action.category);
+        }
+    }
+
+    private applyToggleHold(index: number) {
         console.log(`Engine: toggleHold(${index}). rollsLeft: ${this.state.rollsLeft}`);
         if (this.state.rollsLeft === 3 || this.state.rollsLeft === 0 || this.state.isGameOver) {
             // Exception: If rollsLeft is 0, we are selecting a score, not holding dice?
@@ -40,19 +210,19 @@ export class SarzeeEngine {
             return;
         }
 
-        if (index >= 0 && index < 5) {
+        if (index >= 0 && index < this.ruleSet.diceCount) {
             this.state.heldDice[index] = !this.state.heldDice[index];
             console.log(`Engine: toggleHold success. New state for die ${index}: ${this.state.heldDice[index]}`);
         }
     }
 
-    public rollDice(newValues: DieValue[]) {
+    private applyRoll(newValues: DieValue[]) {
         if (this.state.rollsLeft <= 0 || this.state.isGameOver) {
             throw new Error('No rolls left or game is over');
         }
 
-        if (newValues.length !== 5) {
-            throw new Error('Must provide exactly 5 die values from the physics engine');
+        if (newValues.length !== this.ruleSet.diceCount) {
+            throw new Error(`Must provide exactly ${this.ruleSet.diceCount} die values from the physics engine`);
         }
 
         // Update only unheld dice
@@ -63,7 +233,7 @@ export class SarzeeEngine {
         // Let's assume the input `newValues` respects the held dice constraints (i.e. caller shouldn't have changed held dice).
         // But for safety:
         const nextDice = [...this.state.diceValues];
-        for (let i = 0; i < 5; i++) {
+        for (let i = 0; i < this.ruleSet.diceCount; i++) {
             if (!this.state.heldDice[i]) {
                 nextDice[i] = newValues[i];
             }
@@ -75,75 +245,47 @@ export class SarzeeEngine {
     }
 
     public calculatePotentialScore(category: ScoreCategory, dice: DieValue[] = this.state.diceValues): number {
-        const counts = new Array(7).fill(0);
-        let sum = 0;
-        for (const d of dice) {
-            counts[d]++;
-            sum += d;
-        }
-
-        switch (category) {
-            case ScoreCategory.Ones: return counts[1] * 1;
-            case ScoreCategory.Twos: return counts[2] * 2;
-            case ScoreCategory.Threes: return counts[3] * 3;
-            case ScoreCategory.Fours: return counts[4] * 4;
-            case ScoreCategory.Fives: return counts[5] * 5;
-            case ScoreCategory.Sixes: return counts[6] * 6;
-
-            case ScoreCategory.ThreeOfAKind:
-                return counts.some(c => c >= 3) ? sum : 0;
-
-            case ScoreCategory.FourOfAKind:
-                return counts.some(c => c >= 4) ? sum : 0;
-
-            case ScoreCategory.FullHouse:
-                // 3 of one, 2 of another OR 5 of one (Technically 5 of a kind is also a full house in some variants, but standard Yahtzee validation usually checks for 3+2 or 5)
-                // Standard rule: 3 of one number and 2 of another.
-                // A Yahtzee (5 of a kind) can be scored as a Full House (25 pts) if Yahtzee box is full? Or just generally?
-                // Let's implement strict boolean check: (3 val A && 2 val B) || (5 val A)
-                const has3 = counts.some(c => c === 3);
-                const has2 = counts.some(c => c === 2);
-                const has5 = counts.some(c => c === 5);
-                return (has3 && has2) || has5 ? 25 : 0;
-
-            case ScoreCategory.SmallStraight:
-                // 4 sequential dice
-                if (this.hasSequence(dice, 4)) return 30;
-                return 0;
-
-            case ScoreCategory.LargeStraight:
-                // 5 sequential dice
-                if (this.hasSequence(dice, 5)) return 40;
-                return 0;
-
-            case ScoreCategory.Yahtzee:
-                return counts.some(c => c === 5) ? 50 : 0;
-
-            case ScoreCategory.Chance:
-                return sum;
-
-            default:
-                return 0;
-        }
+        const rule = this.ruleSet.categories.find((c) => c.id === category);
+        if (!rule) return 0;
+
+        // Joker rules: an extra Yahtzee scores the fixed lower-section values
+        // even though the dice don't form the pattern.
+        const jokerScore = this.isJokerRoll(dice) ? this.ruleSet.yahtzeeBonus?.jokerScores[category] : undefined;
+        if (jokerScore !== undefined) return jokerScore;
+
+        return rule.score(dice, {
+            rollNumber: 3 - this.state.rollsLeft,
+            scorecard: this.state.scorecard,
+        });
     }
 
-    private hasSequence(dice: DieValue[], length: number): boolean {
-        const uniqueSorted = Array.from(new Set(dice)).sort((a, b) => a - b);
-        let currentSeq = 1;
-        let maxSeq = 1;
+    /**
+     * Categories the current dice may be scored in.
+     *
+     * Normally any open box is legal. An extra Yahtzee (Yahtzee box already
+     * filled) follows the official forced Joker placement:
+     *   1. the matching upper box, if it is open;
+     *   2. otherwise any open lower box (scored as a Joker);
+     *   3. otherwise any open upper box, for zero.
+     */
+    public getLegalCategories(dice: DieValue[] = this.state.diceValues): ScoreCategory[] {
+        const open = this.ruleSet.categories.map((c) => c.id).filter((c) => this.state.scorecard[c] === null);
+        if (!this.isJokerRoll(dice)) return open;
+
+        const matchingUpper = UPPER_CATEGORIES[dice[0] - 1];
+        if (this.state.scorecard[matchingUpper] === null) return [matchingUpper];
+
+        const openLower = open.filter((c) => this.getSection(c) === 'lower');
+        if (openLower.length > 0) return openLower;
+
+        return open;
+    }
 
-        for (let i = 0; i < uniqueSorted.length - 1; i++) {
-            if (uniqueSorted[i + 1] === uniqueSorted[i] + 1) {
-                currentSeq++;
-            } else {
-                currentSeq = 1;
-            }
-            maxSeq = Math.max(maxSeq, currentSeq);
-        }
-        return maxSeq >= length;
+    public isLegalCategory(category: ScoreCategory, dice: DieValue[] = this.state.diceValues): boolean {
+        return this.getLegalCategories(dice).includes(category);
     }
 
-    public commitScore(category: ScoreCategory) {
+    private applyCommit(category: ScoreCategory) {
         if (this.state.isGameOver) throw new Error('Game is over');
         if (this.state.scorecard[category] !== null) throw new Error('Category already scored');
         if (this.state.rollsLeft === 3 && this.state.currentTurn > 0) {
@@ -152,43 +294,74 @@ export class SarzeeEngine {
             // Let's enforce: MUST roll at least once.
             throw new Error('Must roll at least once');
         }
+        if (!this.isLegalCategory(category)) {
+            throw new Error('Joker rules require a different category for this Yahtzee');
+        }
 
-        // Check for bonus Yahtzee: Yahtzee already scored AND current dice form a Yahtzee
-        const isBonusYahtzee = this.state.scorecard[ScoreCategory.Yahtzee] !== null && 
+        // Check for bonus Yahtzee: Yahtzee box scored (e.g. 50) AND current dice form a Yahtzee.
+        // A scratched (0) Yahtzee box still triggers the Joker rules, but earns no bonus.
+        const yahtzeeBox = this.state.scorecard[ScoreCategory.Yahtzee];
+        const isBonusYahtzee = !!this.ruleSet.yahtzeeBonus && !!yahtzeeBox &&
                                this.isYahtzee(this.state.diceValues);
 
         const score = this.calculatePotentialScore(category);
         this.state.scorecard[category] = score;
-        this.state.totalScore += score;
 
-        // If this is a bonus Yahtzee, add 100 bonus points
+        // If this is a bonus Yahtzee, add the bonus points (classic: 100)
         // Note: You must score the bonus Yahtzee somewhere (even if 0) to get the bonus
-        if (isBonusYahtzee) {
-            this.state.yahtzeeBonus += 100;
-            this.state.totalScore += 100;
+        if (isBonusYahtzee && this.ruleSet.yahtzeeBonus) {
+            this.state.yahtzeeBonus += this.ruleSet.yahtzeeBonus.points;
         }
 
+        this.recomputeTotals();
+
         // Reset for next turn
         this.advanceTurn();
     }
 
     private isYahtzee(dice: DieValue[]): boolean {
-        const counts = new Array(7).fill(0);
-        for (const d of dice) {
-            counts[d]++;
-        }
-        return counts.some(c => c === 5);
+        return dice.length > 0 && dice.every((d) => d === dice[0]);
+    }
+
+    private getSection(category: ScoreCategory): 'upper' | 'lower' | undefined {
+        return this.ruleSet.categories.find((c) => c.id === category)?.section;
+    }
+
+    /** Derive section totals and the grand total from the scorecard. */
+    private recomputeTotals() {
+        const sc = this.state.scorecard;
+        const sectionSum = (section: 'upper' | 'lower') =>
+            this.ruleSet.categories
+                .filter((c) => c.section === section)
+                .reduce((sum, c) => sum + (sc[c.id] ?? 0), 0);
+
+        const upperSubtotal = sectionSum('upper');
+        const bonusRule = this.ruleSet.upperBonus;
+        const upperBonus = bonusRule && upperSubtotal >= bonusRule.threshold ? bonusRule.points : 0;
+        const lowerTotal = sectionSum('lower') + this.state.yahtzeeBonus;
+
+        this.state.upperSubtotal = upperSubtotal;
+        this.state.upperBonus = upperBonus;
+        this.state.lowerTotal = lowerTotal;
+        this.state.totalScore = upperSubtotal + upperBonus + lowerTotal;
+    }
+
+    /** An extra Yahtzee rolled after the Yahtzee box has been filled (50 or 0). */
+    private isJokerRoll(dice: DieValue[]): boolean {
+        if (!this.ruleSet.yahtzeeBonus) return false;
+        const yahtzeeBox = this.state.scorecard[ScoreCategory.Yahtzee];
+        return yahtzeeBox !== null && yahtzeeBox !== undefined && this.isYahtzee(dice);
     }
 
     private advanceTurn() {
         // Check if game over
-        if (Object.values(this.state.scorecard).every(v => v !== null)) {
+        if (Object.values(this.state.scorecard).every(v => v !== null) || this.state.currentTurn >= this.ruleSet.turns) {
             this.state.isGameOver = true;
         } else {
             this.state.currentTurn++;
             this.state.rollsLeft = 3;
             // Vital: Reset held dice so next player starts fresh
-            this.state.heldDice = [false, false, false, false, false];
+            this.state.heldDice = new Array(this.ruleSet.diceCount).fill(false);
             // Dice values persist until next roll, but logic handles that
         }
     }
@@ -196,24 +369,37 @@ export class SarzeeEngine {
     // Debug/Cheat methods could go here
     public _forceDice(dice: DieValue[]) {
         this.state.diceValues = dice;
+        this.rebase();
+    }
+
+    /** Start a fresh action log from the current state (after loading or debug edits). */
+    private rebase() {
+        this.baseState = this.getGameState();
+        this.actions = [];
+        this.undone = [];
     }
 
     public debugSetNearEndgame(targetScore?: number) {
         // Populate scorecard with realistic random scores, leaving 1-2 categories empty
-        const categories = Object.values(ScoreCategory);
+        const categories = this.ruleSet.categories.map((c) => c.id);
         const scores = [...categories].sort(() => Math.random() - 0.5); // Shuffle
-        const toFill = scores.slice(0, Math.max(11, scores.length - 2)); // Fill all but 1-2
+        const toFill = scores.slice(0, scores.length - 1 - Math.floor(Math.random() * 2)); // Fill all but 1-2
         
         // Reset scorecard and total
-        const emptyScorecard: Scorecard = Object.values(ScoreCategory).reduce((acc, category) => {
-            acc[category] = null;
-            return acc;
-        }, {} as Scorecard);
-        this.state.scorecard = emptyScorecard;
+        this.state.scorecard = this.getEmptyScorecard();
+        this.state.yahtzeeBonus = 0;
         
         let newTotal = 0;
         for (const cat of toFill) {
             let score: number;
+            if (this.ruleSet.id !== 'classic') {
+                // Variant tables: score a random roll instead of the classic heuristics below
+                const dice = this.state.diceValues.map(() => (1 + Math.floor(Math.random() * 6)) as DieValue);
+                score = this.calculatePotentialScore(cat, dice);
+                this.state.scorecard[cat] = score;
+                newTotal += score;
+                continue;
+            }
             switch (cat) {
                 case ScoreCategory.Ones:
                 case ScoreCategory.Twos:
@@ -261,12 +447,12 @@ export class SarzeeEngine {
             const currentCatScore = this.state.scorecard[lastCat] ?? 0;
             const adjustment = targetScore - newTotal;
             this.state.scorecard[lastCat] = Math.max(0, currentCatScore + adjustment);
-            newTotal = targetScore;
         }
         
-        this.state.totalScore = newTotal;
-        this.state.currentTurn = 12; // Near the end
+        this.recomputeTotals();
+        this.state.currentTurn = toFill.length + 1; // Near the end
         this.state.rollsLeft = Math.floor(Math.random() * 2) + 1; // 1 or 2 rolls left
         this.state.isGameOver = false; // Not quite over yet
+        this.rebase();
     }
 }
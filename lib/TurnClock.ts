@@ -0,0 +1,91 @@
+/**
+ * Time limits for a game, picked at setup.
+ *
+ * 'turn': every turn gets the same allowance, starting full each time.
+ * 'chess': each player has one bank of time for the whole game; it only runs
+ * on their own turns. A player whose bank is empty plays every remaining turn
+ * on time, so each one is scored for them as soon as it starts.
+ */
+export interface ClockSettings {
+    mode: 'turn' | 'chess';
+    seconds: number; // per turn, or per player for the whole game
+}
+
+export const CLOCK_PRESETS: { label: string; settings: ClockSettings | null }[] = [
+    { label: 'No limit', settings: null },
+    { label: '30 s a turn', settings: { mode: 'turn', seconds: 30 } },
+    { label: '1 min a turn', settings: { mode: 'turn', seconds: 60 } },
+    { label: '2 min a turn', settings: { mode: 'turn', seconds: 120 } },
+    { label: '5 min a game (chess clock)', settings: { mode: 'chess', seconds: 5 * 60 } },
+    { label: '10 min a game (chess clock)', settings: { mode: 'chess', seconds: 10 * 60 } },
+];
+
+/** Counts down the active player's time. It only runs while told to, so hidden tabs and dice in the air are free. */
+export class TurnClock {
+    private remaining: number[]; // ms, as of the last stop
+    private player = 0;
+    private runningSince: number | null = null;
+
+    constructor(
+        private settings: ClockSettings,
+        playerCount: number,
+        private now: () => number = Date.now
+    ) {
+        this.remaining = new Array(playerCount).fill(settings.seconds * 1000);
+    }
+
+    /**
+     * A display-only copy of a clock running on another device (a LAN host's),
+     * from the active player's time left when it was sent and whether it was
+     * counting down. It keeps counting down locally until the next update.
+     */
+    public static follow(settings: ClockSettings, remaining: number, running: boolean, now: () => number = Date.now): TurnClock {
+        const clock = new TurnClock(settings, 1, now);
+        clock.remaining[0] = remaining;
+        clock.setRunning(running);
+        return clock;
+    }
+
+    public getSettings(): ClockSettings {
+        return this.settings;
+    }
+
+    /** Hand the clock to `player`, stopped. A per-turn clock starts full again. */
+    public startTurn(player: number) {
+        this.stop();
+        this.player = player;
+        if (this.settings.mode === 'turn') this.remaining[player] = this.settings.seconds * 1000;
+    }
+
+    public setRunning(running: boolean) {
+        if (!running) this.stop();
+        else if (this.runningSince === null) this.runningSince = this.now();
+    }
+
+    public isRunning(): boolean {
+        return this.runningSince !== null;
+    }
+
+    /** Milliseconds left for `player` (the active one by default). */
+    public getRemaining(player: number = this.player): number {
+        let ms = this.remaining[player];
+        if (player === this.player && this.runningSince !== null) ms -= this.now() - this.runningSince;
+        return Math.max(0, ms);
+    }
+
+    public isExpired(): boolean {
+        return this.getRemaining() === 0;
+    }
+
+    private stop() {
+        if (this.runningSince === null) return;
+        this.remaining[this.player] = this.getRemaining();
+        this.runningSince = null;
+    }
+}
+
+/** m:ss, rounded up so the clock reads 0:00 only once time is really gone. */
+export function formatClock(ms: number): string {
+    const total = Math.ceil(ms / 1000);
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
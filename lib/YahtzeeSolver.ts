@@ -0,0 +1,419 @@
+import { CLASSIC_RULES } from './rulesets';
+import { DieValue, GameState, ScoreCategory, UPPER_CATEGORIES } from './types';
+
+/**
+ * Optimal solitaire strategy for classic Yahtzee.
+ *
+ * The game between turns is fully described by which boxes are filled, the
+ * upper subtotal (capped at the bonus threshold) and whether the Yahtzee box
+ * holds 50. `buildTable()` walks every reachable state backwards from a full
+ * scorecard and records the expected score still to come, so any in-turn
+ * decision only needs a single turn's worth of work on top of the table.
+ *
+ * Building takes a while (tens of seconds in Node); the table can be written
+ * out with `serialize()` and loaded back with `YahtzeeSolver.fromBuffer()`.
+ */
+
+const CATEGORIES = CLASSIC_RULES.categories.map((c) => c.id);
+const NUM_CATEGORIES = CATEGORIES.length;
+const YAHTZEE_INDEX = CATEGORIES.indexOf(ScoreCategory.Yahtzee);
+const UPPER_MASK = UPPER_CATEGORIES.reduce((m, cat) => m | (1 << CATEGORIES.indexOf(cat)), 0);
+const UPPER_CAP = CLASSIC_RULES.upperBonus!.threshold;
+const UPPER_BONUS = CLASSIC_RULES.upperBonus!.points;
+const YAHTZEE_BONUS = CLASSIC_RULES.yahtzeeBonus!.points;
+const JOKER_SCORES = CLASSIC_RULES.yahtzeeBonus!.jokerScores;
+const FULL_MASK = (1 << NUM_CATEGORIES) - 1;
+
+/** Where the browser expects the table written by `npm run gen:solver`. */
+export const SOLVER_TABLE_URL = '/solver/classic.bin';
+
+const TABLE_SIZE = (FULL_MASK + 1) * (UPPER_CAP + 1) * 2;
+const stateIndex = (mask: number, upper: number, yahtzee50: number) =>
+    (mask * (UPPER_CAP + 1) + upper) * 2 + yahtzee50;
+
+export interface HoldDecision {
+    holds: boolean[];
+    /** Expected final total (points already banked included). */
+    expectedScore: number;
+}
+
+export interface CategoryDecision {
+    category: ScoreCategory;
+    expectedScore: number;
+}
+
+// --- Dice multisets ---------------------------------------------------------
+// Every hand or partial hand of up to five dice, as face counts. Keeps are
+// sorted by size so the recurrences below can sweep them in order.
+
+interface Keep {
+    counts: number[]; // index 1..6
+    size: number;
+}
+
+const keyOf = (counts: number[]) => counts.slice(1).reduce((k, c) => k * 6 + c, 0);
+
+const KEEPS: Keep[] = [];
+const KEEP_INDEX = new Map<number, number>();
+(() => {
+    const build = (face: number, left: number, counts: number[]) => {
+        if (face > 6) {
+            const size = counts.reduce((a, b) => a + b, 0);
+            KEEPS.push({ counts: [...counts], size });
+            return;
+        }
+        for (let c = 0; c <= left; c++) {
+            counts[face] = c;
+            build(face + 1, left - c, counts);
+        }
+        counts[face] = 0;
+    };
+    build(1, 5, new Array(7).fill(0));
+    KEEPS.sort((a, b) => a.size - b.size);
+    KEEPS.forEach((k, i) => KEEP_INDEX.set(keyOf(k.counts), i));
+})();
+
+const NUM_KEEPS = KEEPS.length; // 462
+const FIRST_ROLL = KEEPS.findIndex((k) => k.size === 5);
+const NUM_ROLLS = NUM_KEEPS - FIRST_ROLL; // 252
+
+// ADD[k * 6 + f]: keep k plus one die showing f + 1 (-1 if k is already five dice)
+const ADD = new Int32Array(NUM_KEEPS * 6).fill(-1);
+// REMOVE[k * 6 + f]: keep k minus one die showing f + 1 (-1 if there is none)
+const REMOVE = new Int32Array(NUM_KEEPS * 6).fill(-1);
+KEEPS.forEach((k, i) => {
+    for (let f = 1; f <= 6; f++) {
+        if (k.size < 5) {
+            const next = [...k.counts];
+            next[f]++;
+            ADD[i * 6 + f - 1] = KEEP_INDEX.get(keyOf(next))!;
+        }
+        if (k.counts[f] > 0) {
+            const prev = [...k.counts];
+            prev[f]--;
+            REMOVE[i * 6 + f - 1] = KEEP_INDEX.get(keyOf(prev))!;
+        }
+    }
+});
+
+const diceOf = (counts: number[]): DieValue[] => {
+    const dice: DieValue[] = [];
+    for (let f = 1; f <= 6; f++) for (let c = 0; c < counts[f]; c++) dice.push(f as DieValue);
+    return dice;
+};
+
+// Plain (non-Joker) score of every roll in every box
+const ROLL_SCORES = new Int32Array(NUM_ROLLS * NUM_CATEGORIES);
+const ROLL_YAHTZEE_FACE = new Int32Array(NUM_ROLLS); // 1..6, or 0 when not a Yahtzee
+for (let r = 0; r < NUM_ROLLS; r++) {
+    const counts = KEEPS[FIRST_ROLL + r].counts;
+    const dice = diceOf(counts);
+    CLASSIC_RULES.categories.forEach((rule, c) => {
+        ROLL_SCORES[r * NUM_CATEGORIES + c] = rule.score(dice, { rollNumber: 1, scorecard: {} });
+    });
+    ROLL_YAHTZEE_FACE[r] = counts.indexOf(5) > 0 ? counts.indexOf(5) : 0;
+}
+
+const rollIndexOf = (dice: DieValue[]) => {
+    const counts = new Array(7).fill(0);
+    dice.forEach((d) => counts[d]++);
+    return KEEP_INDEX.get(keyOf(counts))! - FIRST_ROLL;
+};
+
+// Upper subtotals that can actually occur for each combination of filled upper boxes
+const REACHABLE_UPPER: boolean[][] = (() => {
+    const result: boolean[][] = [];
+    for (let m = 0; m < 64; m++) {
+        let sums = new Set([0]);
+        for (let face = 1; face <= 6; face++) {
+            if (!(m & (1 << (face - 1)))) continue;
+            const next = new Set<number>();
+            sums.forEach((s) => {
+                for (let n = 0; n <= 5; n++) next.add(Math.min(UPPER_CAP, s + n * face));
+            });
+            sums = next;
+        }
+        result.push(Array.from({ length: UPPER_CAP + 1 }, (_, u) => sums.has(u)));
+    }
+    return result;
+})();
+
+const upperBitsOf = (mask: number) =>
+    UPPER_CATEGORIES.reduce((m, cat, i) => (mask & (1 << CATEGORIES.indexOf(cat)) ? m | (1 << i) : m), 0);
+
+export class YahtzeeSolver {
+    private static sharedInstance: YahtzeeSolver | null = null;
+
+    /** Expected remaining score at the start of a turn, per between-turn state. */
+    private table: Float32Array;
+    private built: boolean;
+
+    constructor(table?: Float32Array) {
+        if (table && table.length !== TABLE_SIZE) {
+            throw new Error(`Solver table must have ${TABLE_SIZE} entries`);
+        }
+        this.table = table ?? new Float32Array(TABLE_SIZE);
+        this.built = !!table;
+    }
+
+    /** Process-wide solver; the table is built on first use. */
+    public static shared(): YahtzeeSolver {
+        if (!YahtzeeSolver.sharedInstance) YahtzeeSolver.sharedInstance = new YahtzeeSolver();
+        return YahtzeeSolver.sharedInstance;
+    }
+
+    public static fromBuffer(buffer: ArrayBuffer | Uint8Array): YahtzeeSolver {
+        const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+        const copy = bytes.slice().buffer;
+        return new YahtzeeSolver(new Float32Array(copy));
+    }
+
+    /** Install a table loaded elsewhere (e.g. fetched by the browser) as the shared solver. */
+    public static setShared(solver: YahtzeeSolver) {
+        YahtzeeSolver.sharedInstance = solver;
+    }
+
+    /**
+     * Fetch the precomputed table and install it as the shared solver.
+     * Resolves to null (and leaves callers on their fallback) if it is missing.
+     */
+    public static async loadShared(url: string = SOLVER_TABLE_URL): Promise<YahtzeeSolver | null> {
+        const current = YahtzeeSolver.sharedInstance;
+        if (current?.isBuilt()) return current;
+        try {
+            const res = await fetch(url);
+            if (!res.ok) throw new Error(`HTTP ${res.status}`);
+            const solver = YahtzeeSolver.fromBuffer(await res.arrayBuffer());
+            YahtzeeSolver.setShared(solver);
+            return solver;
+        } catch (err) {
+            console.warn(`Solver table unavailable at ${url} (run \`npm run gen:solver\`):`, err);
+            return null;
+        }
+    }
+
+    public isBuilt(): boolean {
+        return this.built;
+    }
+
+    public serialize(): Uint8Array {
+        this.ensureBuilt();
+        return new Uint8Array(this.table.buffer.slice(0));
+    }
+
+    /** Fill the value table. Safe to call repeatedly; only the first call does work. */
+    public buildTable(onProgress?: (fraction: number) => void) {
+        if (this.built) return;
+
+        const scratch = this.createScratch();
+        // Adding a box always increases the mask, so sweep from full scorecards down.
+        for (let mask = FULL_MASK - 1; mask >= 0; mask--) {
+            const reachable = REACHABLE_UPPER[upperBitsOf(mask)];
+            const yahtzeeFilled = (mask >> YAHTZEE_INDEX) & 1;
+            for (let upper = 0; upper <= UPPER_CAP; upper++) {
+                if (!reachable[upper]) continue;
+                for (let y50 = 0; y50 <= yahtzeeFilled; y50++) {
+                    this.table[stateIndex(mask, upper, y50)] = this.solveTurn(mask, upper, y50, scratch).start;
+                }
+            }
+            if (onProgress && mask % 256 === 0) onProgress(1 - mask / FULL_MASK);
+        }
+        this.built = true;
+    }
+
+    /** Expected final total from the start of a fresh game (about 254.59). */
+    public expectedGameScore(): number {
+        this.ensureBuilt();
+        return this.table[stateIndex(0, 0, 0)];
+    }
+
+    /** Expected final total for a game in progress, assuming optimal play from here. */
+    public expectedFinalScore(state: GameState): number {
+        const { mask, upper, y50 } = this.describe(state);
+        if (state.isGameOver) return state.totalScore;
+        if (state.rollsLeft === 3) return state.totalScore + this.value(mask, upper, y50);
+        const turn = this.solveTurn(mask, upper, y50, this.createScratch());
+        const r = rollIndexOf(state.diceValues);
+        return state.totalScore + turn.byRollsLeft[state.rollsLeft][FIRST_ROLL + r];
+    }
+
+    /** Best dice to keep before the next roll. Only meaningful with 1 or 2 rolls left. */
+    public bestHold(state: GameState): HoldDecision {
+        const { mask, upper, y50 } = this.describe(state);
+        const turn = this.solveTurn(mask, upper, y50, this.createScratch());
+        // Value of each keep with this many rerolls still to come
+        const keepValues = turn.keepValues[state.rollsLeft - 1];
+
+        const dice = state.diceValues;
+        let best = -1;
+        let bestHolds: boolean[] = dice.map(() => false);
+        for (let bits = 0; bits < 1 << dice.length; bits++) {
+            const counts = new Array(7).fill(0);
+            dice.forEach((d, i) => {
+                if (bits & (1 << i)) counts[d]++;
+            });
+            const ev = keepValues[KEEP_INDEX.get(keyOf(counts))!];
+            if (ev > best + 1e-9) {
+                best = ev;
+                bestHolds = dice.map((_, i) => !!(bits & (1 << i)));
+            }
+        }
+        return { holds: bestHolds, expectedScore: state.totalScore + best };
+    }
+
+    /** Expected final total if exactly the `holds` dice are kept for the next roll. */
+    public evaluateHold(state: GameState, holds: boolean[]): number {
+        const { mask, upper, y50 } = this.describe(state);
+        const turn = this.solveTurn(mask, upper, y50, this.createScratch());
+        const counts = new Array(7).fill(0);
+        state.diceValues.forEach((d, i) => {
+            if (holds[i]) counts[d]++;
+        });
+        return state.totalScore + turn.keepValues[state.rollsLeft - 1][KEEP_INDEX.get(keyOf(counts))!];
+    }
+
+    /** Best box for the current dice, following the Joker placement rules. */
+    public bestCategory(state: GameState): CategoryDecision {
+        const { mask, upper, y50 } = this.describe(state);
+        const r = rollIndexOf(state.diceValues);
+        const options = this.scoreOptions(mask, upper, y50, r);
+        let best = options[0];
+        for (const o of options) if (o.value > best.value) best = o;
+        return { category: CATEGORIES[best.category], expectedScore: state.totalScore + best.value };
+    }
+
+    /** Expected final total for each legal box, for hinting how costly a choice is. */
+    public categoryValues(state: GameState): Partial<Record<ScoreCategory, number>> {
+        const { mask, upper, y50 } = this.describe(state);
+        const r = rollIndexOf(state.diceValues);
+        const result: Partial<Record<ScoreCategory, number>> = {};
+        for (const o of this.scoreOptions(mask, upper, y50, r)) {
+            result[CATEGORIES[o.category]] = state.totalScore + o.value;
+        }
+        return result;
+    }
+
+    // --- internals --------------------------------------------------------
+
+    private ensureBuilt() {
+        if (!this.built) this.buildTable();
+    }
+
+    private value(mask: number, upper: number, y50: number): number {
+        if (mask === FULL_MASK) return 0;
+        return this.table[stateIndex(mask, upper, y50)];
+    }
+
+    private describe(state: GameState) {
+        if (state.ruleSetId !== 'classic') {
+            throw new Error('The solver only supports the classic rule set');
+        }
+        this.ensureBuilt();
+        let mask = 0;
+        CATEGORIES.forEach((cat, i) => {
+            if (state.scorecard[cat] !== null && state.scorecard[cat] !== undefined) mask |= 1 << i;
+        });
+        const upper = Math.min(UPPER_CAP, state.upperSubtotal);
+        const y50 = state.scorecard[ScoreCategory.Yahtzee] === 50 ? 1 : 0;
+        return { mask, upper, y50 };
+    }
+
+    /**
+     * Points scored now plus the expected remainder, for every box the roll
+     * may legally go in (official forced Joker placement included).
+     */
+    private scoreOptions(mask: number, upper: number, y50: number, r: number) {
+        const options: { category: number; value: number }[] = [];
+        const allowed = this.allowedMask(mask, r);
+        for (let c = 0; c < NUM_CATEGORIES; c++) {
+            if (allowed & (1 << c)) options.push({ category: c, value: this.optionValue(mask, upper, y50, r, c) });
+        }
+        return options;
+    }
+
+    private allowedMask(mask: number, r: number): number {
+        const open = ~mask & FULL_MASK;
+        const face = ROLL_YAHTZEE_FACE[r];
+        if (face === 0 || !((mask >> YAHTZEE_INDEX) & 1)) return open;
+
+        const matching = 1 << CATEGORIES.indexOf(UPPER_CATEGORIES[face - 1]);
+        if (open & matching) return matching;
+        const openLower = open & ~UPPER_MASK;
+        return openLower || open;
+    }
+
+    private optionValue(mask: number, upper: number, y50: number, r: number, c: number): number {
+        const joker = ROLL_YAHTZEE_FACE[r] > 0 && ((mask >> YAHTZEE_INDEX) & 1) === 1;
+        let points = ROLL_SCORES[r * NUM_CATEGORIES + c];
+        if (joker) points = JOKER_SCORES[CATEGORIES[c]] ?? points;
+
+        let nextUpper = upper;
+        let upperBonus = 0;
+        if ((1 << c) & UPPER_MASK) {
+            nextUpper = Math.min(UPPER_CAP, upper + points);
+            if (upper < UPPER_CAP && nextUpper >= UPPER_CAP) upperBonus = UPPER_BONUS;
+        }
+        const nextY50 = c === YAHTZEE_INDEX ? (points > 0 ? 1 : 0) : y50;
+        const yahtzeeBonus = joker && y50 ? YAHTZEE_BONUS : 0;
+        return points + upperBonus + yahtzeeBonus + this.value(mask | (1 << c), nextUpper, nextY50);
+    }
+
+    private createScratch() {
+        return {
+            byRollsLeft: [0, 1, 2].map(() => new Float64Array(NUM_KEEPS)),
+            keepValues: [0, 1, 2].map(() => new Float64Array(NUM_KEEPS)),
+        };
+    }
+
+    /**
+     * One turn of the dynamic program.
+     * byRollsLeft[n][roll]: expected remainder holding `roll` with n rerolls left.
+     * keepValues[n][keep]: expected remainder after keeping `keep` with n + 1 rolls to come.
+     */
+    private solveTurn(mask: number, upper: number, y50: number, scratch: ReturnType<YahtzeeSolver['createScratch']>) {
+        const { byRollsLeft, keepValues } = scratch;
+
+        const scored = byRollsLeft[0];
+        for (let r = 0; r < NUM_ROLLS; r++) {
+            const allowed = this.allowedMask(mask, r);
+            let best = -Infinity;
+            for (let c = 0; c < NUM_CATEGORIES; c++) {
+                if (!(allowed & (1 << c))) continue;
+                const v = this.optionValue(mask, upper, y50, r, c);
+                if (v > best) best = v;
+            }
+            scored[FIRST_ROLL + r] = best;
+        }
+
+        let start = 0;
+        for (let n = 0; n < 3; n++) {
+            const source = byRollsLeft[n];
+            const expected = keepValues[n];
+            // Average over the next die for every partial keep, largest first
+            for (let k = NUM_KEEPS - 1; k >= 0; k--) {
+                if (k >= FIRST_ROLL) {
+                    expected[k] = source[k];
+                    continue;
+                }
+                let sum = 0;
+                for (let f = 0; f < 6; f++) sum += expected[ADD[k * 6 + f]];
+                expected[k] = sum / 6;
+            }
+            if (n === 2) {
+                start = expected[0];
+                break;
+            }
+            // Best sub-keep of every multiset, smallest first
+            const target = byRollsLeft[n + 1];
+            for (let k = 0; k < NUM_KEEPS; k++) {
+                let best = expected[k];
+                for (let f = 0; f < 6; f++) {
+                    const prev = REMOVE[k * 6 + f];
+                    if (prev >= 0 && target[prev] > best) best = target[prev];
+                }
+                target[k] = best;
+            }
+        }
+        return { start, byRollsLeft, keepValues };
+    }
+}
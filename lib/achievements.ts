@@ -0,0 +1,54 @@
+import { DieValue } from './types';
+
+/**
+ * Badges a player can earn. The AchievementTracker watches a game for them;
+ * unlocks are remembered on the player's profile.
+ */
+export type AchievementId = 'first-yahtzee' | 'triple-yahtzee' | 'score-300' | 'upper-crust' | 'clean-sheet' | 'nancy-five';
+
+export interface Achievement {
+    id: AchievementId;
+    icon: string;
+    title: string;
+    description: string;
+}
+
+export const ACHIEVEMENTS: Achievement[] = [
+    { id: 'first-yahtzee', icon: '🎲', title: 'First Yahtzee', description: 'Roll five of a kind' },
+    { id: 'triple-yahtzee', icon: '🎰', title: 'Hat Trick', description: 'Roll five of a kind in three turns of one game' },
+    { id: 'score-300', icon: '💯', title: 'Triple Century', description: 'Finish a game with 300 or more' },
+    { id: 'upper-crust', icon: '👑', title: 'Upper Crust', description: 'Earn the upper bonus with five or more of the face in every upper box' },
+    { id: 'clean-sheet', icon: '🧼', title: 'Clean Sheet', description: 'Finish a game without scratching a single box' },
+    { id: 'nancy-five', icon: '🌈', title: "Nancy's Favorite", description: 'Roll five Nancies in one game' },
+];
+
+export function getAchievement(id: AchievementId): Achievement {
+    const achievement = ACHIEVEMENTS.find((a) => a.id === id);
+    if (!achievement) throw new Error(`Unknown achievement: ${id}`);
+    return achievement;
+}
+
+/** Every die showing the same face. */
+export function isYahtzee(dice: DieValue[]): boolean {
+    return dice.length > 0 && dice.every((d) => d === dice[0]);
+}
+
+/**
+ * A Nancy: a turn's first roll (two rolls left after it) with five different
+ * dice that don't make a straight. Only five-dice rules have them; six
+ * different dice would always be a straight.
+ */
+export function isNancy(dice: number[], rollsLeft: number): boolean {
+    if (rollsLeft !== 2 || dice.length !== 5) return false;
+    const sorted = [...new Set(dice)].sort((a, b) => a - b);
+    if (sorted.length !== 5) return false;
+
+    // Longest run of consecutive faces; four in a row is a small straight
+    let maxSeq = 1;
+    let currentSeq = 1;
+    for (let i = 0; i < sorted.length - 1; i++) {
+        currentSeq = sorted[i + 1] === sorted[i] + 1 ? currentSeq + 1 : 1;
+        maxSeq = Math.max(maxSeq, currentSeq);
+    }
+    return maxSeq < 4;
+}
@@ -0,0 +1,73 @@
+import { decodeCorrespondence, encodeCorrespondence } from './correspondence';
+import { GameSession } from './GameSession';
+import { SeededDiceSource } from './DiceSource';
+import { CLASSIC_RULES } from './rulesets';
+import { ScoreCategory } from './types';
+import assert from 'assert';
+
+const scorecards = (session: GameSession) => session.getEngines().map((e) => e.getGameState().scorecard);
+
+async function runTests() {
+    console.log("Running Correspondence Tests...");
+
+    console.log("Test 1: A link rebuilds the game exactly, holds and all");
+    const session = new GameSession(
+        CLASSIC_RULES,
+        [
+            { name: 'Grandma Zoë', diceColor: '#C01E32', cpu: null },
+            { name: 'Bot', diceColor: '#2056A2', cpu: { difficulty: 'intermediate', mistakeRate: 0.1 } },
+        ],
+        new SeededDiceSource(12345),
+        ['yahtzees']
+    );
+    session.roll();
+    session.toggleHold(0);
+    session.toggleHold(3);
+    session.toggleHold(3); // changed its mind
+    session.roll();
+    session.toggleHold(1);
+    session.roll();
+    session.commitScore(ScoreCategory.Chance);
+    session.roll();
+    session.toggleHold(4);
+    session.roll();
+    session.commitScore(ScoreCategory.Ones);
+
+    const token = encodeCorrespondence(session, 'pirates-cove');
+    assert.ok(/^[A-Za-z0-9_-]+\.[a-z0-9]+$/.test(token), 'URL-safe without escaping');
+    const opened = decodeCorrespondence(token);
+    assert.strictEqual(opened.board, 'pirates-cove');
+    assert.deepStrictEqual(scorecards(opened.session), scorecards(session));
+    assert.deepStrictEqual(opened.session.getPlayers(), session.getPlayers());
+    assert.deepStrictEqual(opened.session.getTieBreakers(), ['yahtzees']);
+    assert.strictEqual(opened.session.getActivePlayer(), 0);
+    assert.deepStrictEqual(opened.session.getDiceState(), session.getDiceState());
+    console.log("  PASS");
+
+    console.log("Test 2: Opening the same link twice rolls the same dice");
+    const again = decodeCorrespondence(token).session;
+    assert.deepStrictEqual(again.roll(), opened.session.roll());
+    assert.deepStrictEqual(session.roll(), opened.session.getActiveEngine().getGameState().diceValues);
+    console.log("  PASS");
+
+    console.log("Test 3: A turn still in progress is left out of the link");
+    const midTurn = decodeCorrespondence(encodeCorrespondence(session, 'pirates-cove')).session;
+    assert.strictEqual(midTurn.getActiveEngine().getGameState().rollsLeft, 3);
+    assert.deepStrictEqual(midTurn.getDiceState(), decodeCorrespondence(token).session.getDiceState());
+    console.log("  PASS");
+
+    console.log("Test 4: Edited or truncated links are refused");
+    const [body, sum] = token.split('.');
+    const flipped = (body[10] === 'A' ? 'B' : 'A');
+    assert.throws(() => decodeCorrespondence(`${body.slice(0, 10)}${flipped}${body.slice(11)}.${sum}`), /changed or cut short/);
+    assert.throws(() => decodeCorrespondence(body.slice(0, -4) + '.' + sum), /changed or cut short/);
+    assert.throws(() => decodeCorrespondence('garbage'), /changed or cut short/);
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
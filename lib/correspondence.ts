@@ -0,0 +1,177 @@
+import { CpuDifficulty } from './CpuAgent';
+import { GameReplay } from './GameReplay';
+import { GameSession, SessionPlayer } from './GameSession';
+import { SeededDiceSource } from './DiceSource';
+import { getRuleSet } from './rulesets';
+import { TieBreakerId } from './standings';
+import { RuleSetId } from './types';
+
+/**
+ * Correspondence play: the whole game packed into a link that is passed
+ * from player to player, one turn at a time.
+ *
+ * Rolls aren't stored. The link carries the seed, and every turn is just
+ * which dice were held before each roll and the box scored, so opening it
+ * replays the game from the seed. Playing a turn again from the same link
+ * therefore rolls exactly the same dice. The dice position the game reached
+ * and a checksum over everything ride along, so a link that was edited (or
+ * mangled by a mail client) is refused. A checksum can't stop someone who
+ * reads this file and recomputes it; it is tamper-evident, not tamper-proof.
+ */
+
+/** URL search parameter holding the game. */
+export const CORRESPONDENCE_PARAM = 'game';
+
+interface Payload {
+    v: 1;
+    r: RuleSetId;
+    b: string; // board
+    s: number; // seed
+    p: number; // dice drawn so far
+    t: TieBreakerId[];
+    n: [string, string, ...(string | number)[]][]; // name, dice color, then CPU difficulty and mistake rate
+    m: string; // finished turns in play order
+}
+
+const CPU_DIFFICULTIES: CpuDifficulty[] = ['beginner', 'intermediate', 'expert'];
+
+// Turns are written as: number of rolls, the held mask before each later roll, then the box index
+const DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+
+export function encodeCorrespondence(session: GameSession, board: string): string {
+    const dice = session.getDiceState();
+    if (!dice) throw new Error('Only games with seeded dice can be played by link');
+    const ruleSet = session.getRuleSet();
+    const categories = ruleSet.categories.map((c) => c.id);
+
+    let moves = '';
+    let held: boolean[] = [];
+    let masks: number[] = [];
+    const replay = GameReplay.fromEngines(session.getEngines());
+    for (let i = 0; i < replay.length; i++) {
+        const { action } = replay.getFrame(i)!;
+        if (action.type === 'toggleHold') {
+            held[action.index] = !held[action.index];
+        } else if (action.type === 'roll') {
+            masks.push(held.reduce((mask, h, d) => (h ? mask | (1 << d) : mask), 0));
+        } else {
+            moves += String(masks.length) + masks.slice(1).map((m) => DIGITS[m]).join('') + DIGITS[categories.indexOf(action.category)];
+            held = [];
+            masks = [];
+        }
+    }
+
+    const payload: Payload = {
+        v: 1,
+        r: ruleSet.id,
+        b: board,
+        s: dice.seed,
+        p: dice.position - masks.reduce((drawn, m) => drawn + ruleSet.diceCount - bitCount(m), 0), // unfinished turn excluded
+        t: session.getTieBreakers(),
+        n: session.getPlayers().map((p) => (p.cpu ? [p.name, p.diceColor, p.cpu.difficulty, p.cpu.mistakeRate] : [p.name, p.diceColor])),
+        m: moves,
+    };
+    const body = toBase64Url(JSON.stringify(payload));
+    const token = `${body}.${checksum(body)}`;
+
+    // Games resumed from saves without a full history can't be rebuilt from the seed
+    const rebuilt = decodeCorrespondence(token).session;
+    if (rebuilt.getEngines().some((e, i) => JSON.stringify(e.getGameState().scorecard) !== JSON.stringify(session.getEngine(i).getGameState().scorecard))) {
+        throw new Error('This game is missing part of its history, so it cannot be played by link');
+    }
+    return token;
+}
+
+/** Rebuild the game a link describes. Throws if the link is damaged or was edited. */
+export function decodeCorrespondence(token: string): { session: GameSession; board: string } {
+    const [body, sum] = token.trim().split('.');
+    if (!body || sum !== checksum(body)) throw new Error('This game link was changed or cut short');
+
+    let payload: Payload;
+    try {
+        payload = JSON.parse(fromBase64Url(body));
+    } catch {
+        throw new Error('This game link is unreadable');
+    }
+    if (payload.v !== 1) throw new Error('This game link is from a newer version');
+
+    try {
+        const ruleSet = getRuleSet(payload.r);
+        const categories = ruleSet.categories.map((c) => c.id);
+        const players: SessionPlayer[] = payload.n.map(([name, diceColor, difficulty, mistakeRate]) => {
+            if (difficulty === undefined) return { name, diceColor, cpu: null };
+            if (!CPU_DIFFICULTIES.includes(difficulty as CpuDifficulty)) throw new Error('Unknown CPU difficulty');
+            return { name, diceColor, cpu: { difficulty: difficulty as CpuDifficulty, mistakeRate: Number(mistakeRate) || 0 } };
+        });
+        const session = new GameSession(ruleSet, players, new SeededDiceSource(payload.s), payload.t);
+
+        let i = 0;
+        const read = () => {
+            const digit = DIGITS.indexOf(payload.m[i++]);
+            if (digit < 0) throw new Error('Truncated turn');
+            return digit;
+        };
+        while (i < payload.m.length) {
+            const rolls = Number(payload.m[i++]);
+            if (!(rolls >= 1 && rolls <= 3)) throw new Error('Bad roll count');
+            session.roll();
+            for (let r = 1; r < rolls; r++) {
+                const mask = read();
+                const engine = session.getActiveEngine();
+                engine.getGameState().heldDice.forEach((h, d) => {
+                    if (h !== !!(mask & (1 << d))) session.toggleHold(d);
+                });
+                session.roll();
+            }
+            const category = categories[read()];
+            if (!category) throw new Error('Bad box');
+            session.commitScore(category);
+        }
+
+        // Same seed, same moves: the dice must have run to the same place
+        if (session.getDiceState()!.position !== payload.p) throw new Error('Dice position mismatch');
+        return { session, board: payload.b };
+    } catch (e) {
+        throw new Error(`This game link doesn't replay: ${(e as Error).message}`);
+    }
+}
+
+/** Full URL for a link token, on the page currently open. */
+export function correspondenceUrl(token: string): string {
+    const url = new URL(window.location.href);
+    url.search = '';
+    url.searchParams.set(CORRESPONDENCE_PARAM, token);
+    return url.toString();
+}
+
+function bitCount(mask: number): number {
+    let n = 0;
+    for (; mask; mask &= mask - 1) n++;
+    return n;
+}
+
+function toBase64Url(text: string): string {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach((b) => (binary += String.fromCharCode(b)));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(body: string): string {
+    const binary = atob(body.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+// cyrb53: a fast 53-bit string hash, written in base 36
+function checksum(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -0,0 +1,55 @@
+import { categoryAverages, headToHead, scoreHistogram, scratchRates, winRateOverTime } from './dashboard';
+import { matchFromSession, MatchRecord } from './matchHistory';
+import { computer, finishedGame, human } from './testGames';
+import { ScoreCategory } from './types';
+import assert from 'assert';
+
+function finishedMatch(seed: number, finishedAt: number): MatchRecord {
+    const session = finishedGame([human('Ann', '#C01E32'), human('Bo', '#2056A2'), computer('Bot', 'beginner', '#1E8F4B')], seed);
+    return matchFromSession(session, 'the-cafe', ['ann', 'bo', null], finishedAt);
+}
+
+async function runTests() {
+    console.log("Running Dashboard Tests...");
+    const matches = [finishedMatch(1, 300), finishedMatch(2, 100), finishedMatch(3, 200)];
+    const people = matches.flatMap((m) => m.players.filter((p) => !p.cpu));
+
+    console.log("Test 1: The histogram counts every human seat once, in range order");
+    const bins = scoreHistogram(matches, { ruleSetId: 'classic' }, 50);
+    assert.strictEqual(bins.reduce((n, b) => n + b.count, 0), people.length);
+    bins.forEach((b, i) => assert.strictEqual(b.from, bins[0].from + i * 50));
+    assert.strictEqual(scoreHistogram(matches, { ruleSetId: 'classic', profileId: 'ann' }, 50).reduce((n, b) => n + b.count, 0), 3);
+    assert.deepStrictEqual(scoreHistogram(matches, { ruleSetId: 'yatzy' }), []);
+    console.log("  PASS");
+
+    console.log("Test 2: Box averages and scratch rates come from the final scorecards");
+    const ann = matches.map((m) => m.players[0].state);
+    const chance = categoryAverages(matches, { ruleSetId: 'classic', profileId: 'ann' }).find((c) => c.category === ScoreCategory.Chance)!;
+    assert.strictEqual(chance.average, ann.reduce((sum, s) => sum + (s.scorecard[ScoreCategory.Chance] ?? 0), 0) / 3);
+    assert.strictEqual(chance.optimum, 22.01);
+    const yahtzee = scratchRates(matches, { ruleSetId: 'classic', profileId: 'ann' }).find((c) => c.category === ScoreCategory.Yahtzee)!;
+    assert.strictEqual(yahtzee.rate, ann.filter((s) => s.scorecard[ScoreCategory.Yahtzee] === 0).length / 3);
+    console.log("  PASS");
+
+    console.log("Test 3: Win rate runs in the order games were played");
+    const trend = winRateOverTime(matches, 'ann');
+    assert.deepStrictEqual(trend.map((t) => t.finishedAt), [100, 200, 300]);
+    const byTime = [...matches].sort((a, b) => a.finishedAt - b.finishedAt);
+    assert.strictEqual(trend[2].rate, byTime.filter((m) => m.players[0].place === 1).length / 3);
+    console.log("  PASS");
+
+    console.log("Test 4: Head-to-head records mirror each other");
+    const h2h = headToHead(matches, ['ann', 'bo']);
+    assert.strictEqual(h2h.ann.bo.wins, h2h.bo.ann.losses);
+    assert.strictEqual(h2h.ann.bo.ties, h2h.bo.ann.ties);
+    assert.strictEqual(h2h.ann.bo.wins + h2h.ann.bo.losses + h2h.ann.bo.ties, 3);
+    assert.strictEqual(h2h.ann.ann, undefined);
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
@@ -0,0 +1,124 @@
+import { MatchPlayer, MatchRecord } from './matchHistory';
+import { getRuleSet } from './rulesets';
+import { RuleSetId, ScoreCategory } from './types';
+
+/**
+ * Figures for the stats dashboard, worked out from the match history. Each
+ * takes the stored games and which seats to look at, so the page can narrow
+ * everything to one rule variant and, optionally, one profile.
+ */
+
+/**
+ * Average score per box under optimal solitaire play of the classic rules,
+ * as published for the strategy that maximizes the expected total (about 254.6
+ * with bonuses). A yardstick only: no other variant has such a table.
+ */
+export const OPTIMAL_AVERAGES: Partial<Record<RuleSetId, Partial<Record<ScoreCategory, number>>>> = {
+    classic: {
+        [ScoreCategory.Ones]: 2.11,
+        [ScoreCategory.Twos]: 5.28,
+        [ScoreCategory.Threes]: 8.57,
+        [ScoreCategory.Fours]: 12.16,
+        [ScoreCategory.Fives]: 15.69,
+        [ScoreCategory.Sixes]: 19.19,
+        [ScoreCategory.ThreeOfAKind]: 21.66,
+        [ScoreCategory.FourOfAKind]: 13.1,
+        [ScoreCategory.FullHouse]: 22.59,
+        [ScoreCategory.SmallStraight]: 29.46,
+        [ScoreCategory.LargeStraight]: 32.71,
+        [ScoreCategory.Yahtzee]: 16.87,
+        [ScoreCategory.Chance]: 22.01,
+    },
+};
+
+/** Seats to count: people only, optionally just one profile. */
+export interface SeatFilter {
+    ruleSetId: RuleSetId;
+    profileId?: string | null;
+}
+
+const matchesSeat = (p: MatchPlayer, filter: SeatFilter) => !p.cpu && (!filter.profileId || p.profileId === filter.profileId);
+
+function seatsOf(matches: MatchRecord[], filter: SeatFilter): MatchPlayer[] {
+    return matches.filter((m) => m.ruleSetId === filter.ruleSetId).flatMap((m) => m.players.filter((p) => matchesSeat(p, filter)));
+}
+
+/** Final totals bucketed into `binSize`-point ranges, from the lowest bucket scored to the highest. */
+export function scoreHistogram(matches: MatchRecord[], filter: SeatFilter, binSize = 25): { from: number; count: number }[] {
+    const totals = seatsOf(matches, filter).map((p) => p.state.totalScore);
+    if (totals.length === 0) return [];
+    const first = Math.floor(Math.min(...totals) / binSize);
+    const last = Math.floor(Math.max(...totals) / binSize);
+    const bins = Array.from({ length: last - first + 1 }, (_, i) => ({ from: (first + i) * binSize, count: 0 }));
+    totals.forEach((t) => bins[Math.floor(t / binSize) - first].count++);
+    return bins;
+}
+
+/** How often each box ended the game at 0, as a share of the games it was played in. */
+export function scratchRates(matches: MatchRecord[], filter: SeatFilter): { category: ScoreCategory; rate: number }[] {
+    const seats = seatsOf(matches, filter);
+    if (seats.length === 0) return [];
+    return getRuleSet(filter.ruleSetId).categories.map((rule) => ({
+        category: rule.id,
+        rate: seats.filter((p) => p.state.scorecard[rule.id] === 0).length / seats.length,
+    }));
+}
+
+/** Average points per box, next to the optimal-play average where one is known. */
+export function categoryAverages(matches: MatchRecord[], filter: SeatFilter): { category: ScoreCategory; average: number; optimum: number | null }[] {
+    const seats = seatsOf(matches, filter);
+    if (seats.length === 0) return [];
+    const optimum = OPTIMAL_AVERAGES[filter.ruleSetId] ?? {};
+    return getRuleSet(filter.ruleSetId).categories.map((rule) => ({
+        category: rule.id,
+        average: seats.reduce((sum, p) => sum + (p.state.scorecard[rule.id] ?? 0), 0) / seats.length,
+        optimum: optimum[rule.id] ?? null,
+    }));
+}
+
+/**
+ * A profile's running win rate, one point per game it played against others
+ * (any variant), oldest first. Shared first places count as wins.
+ */
+export function winRateOverTime(matches: MatchRecord[], profileId: string): { finishedAt: number; rate: number }[] {
+    let played = 0;
+    let won = 0;
+    return [...matches]
+        .sort((a, b) => a.finishedAt - b.finishedAt)
+        .flatMap((m) => {
+            const seat = m.players.find((p) => p.profileId === profileId);
+            if (!seat || m.players.length < 2) return [];
+            played++;
+            if (seat.place === 1) won++;
+            return [{ finishedAt: m.finishedAt, rate: won / played }];
+        });
+}
+
+export interface HeadToHead {
+    wins: number;
+    losses: number;
+    ties: number;
+}
+
+/** For each pair of profiles, how the first placed against the second in games they both played (any variant). */
+export function headToHead(matches: MatchRecord[], profileIds: string[]): Record<string, Record<string, HeadToHead>> {
+    const table: Record<string, Record<string, HeadToHead>> = {};
+    profileIds.forEach((a) => {
+        table[a] = {};
+        profileIds.forEach((b) => {
+            if (a !== b) table[a][b] = { wins: 0, losses: 0, ties: 0 };
+        });
+    });
+    for (const m of matches) {
+        for (const a of m.players) {
+            for (const b of m.players) {
+                const record = a.profileId && b.profileId ? table[a.profileId]?.[b.profileId] : undefined;
+                if (!record) continue;
+                if (a.place < b.place) record.wins++;
+                else if (a.place > b.place) record.losses++;
+                else record.ties++;
+            }
+        }
+    }
+    return table;
+}
@@ -0,0 +1,71 @@
+import { SarzeeEngine } from './SarzeeEngine';
+import { IntermediateStrategy } from './CpuStrategies';
+import { YahtzeeSolver } from './YahtzeeSolver';
+import { ScoreCategory } from './types';
+
+/**
+ * Teaching hint for the dice currently on the table.
+ *
+ * With the classic rules and the solver table loaded, values are the expected
+ * final total under optimal play ('final'). Otherwise they fall back to a
+ * one-roll lookahead and are expected points for this turn only ('turn').
+ */
+export interface Hint {
+    basis: 'final' | 'turn';
+    /** Dice to keep for the next roll; null once no rerolls are left. */
+    holds: boolean[] | null;
+    holdValue: number | null;
+    /** Value of what the player is holding right now, for comparison. */
+    currentHoldValue: number | null;
+    bestCategory: ScoreCategory;
+    /** Per legal box: how much worse than the best box it is (0 for the best, otherwise negative). */
+    categoryImpact: Partial<Record<ScoreCategory, number>>;
+}
+
+const lookahead = new IntermediateStrategy();
+
+/** Returns null before the first roll or after the game is over. */
+export function computeHint(engine: SarzeeEngine): Hint | null {
+    const state = engine.getGameState();
+    if (state.rollsLeft === 3 || state.isGameOver) return null;
+
+    const solver = YahtzeeSolver.shared();
+    if (engine.getRuleSet().id === 'classic' && solver.isBuilt()) {
+        const values = solver.categoryValues(state);
+        const best = solver.bestCategory(state);
+        const hold = state.rollsLeft > 0 ? solver.bestHold(state) : null;
+        return {
+            basis: 'final',
+            holds: hold?.holds ?? null,
+            holdValue: hold?.expectedScore ?? null,
+            currentHoldValue: hold ? solver.evaluateHold(state, state.heldDice) : null,
+            bestCategory: best.category,
+            categoryImpact: relativeTo(values, best.expectedScore),
+        };
+    }
+
+    const points: Partial<Record<ScoreCategory, number>> = {};
+    let bestCategory = engine.getLegalCategories()[0];
+    for (const cat of engine.getLegalCategories()) {
+        points[cat] = engine.calculatePotentialScore(cat);
+        if (points[cat]! > points[bestCategory]!) bestCategory = cat;
+    }
+
+    const holds = state.rollsLeft > 0 ? lookahead.chooseHolds(engine, state) : null;
+    return {
+        basis: 'turn',
+        holds,
+        holdValue: holds ? lookahead.evaluateHold(engine, state, holds) : null,
+        currentHoldValue: holds ? lookahead.evaluateHold(engine, state, state.heldDice) : null,
+        bestCategory,
+        categoryImpact: relativeTo(points, points[bestCategory] ?? 0),
+    };
+}
+
+function relativeTo(values: Partial<Record<ScoreCategory, number>>, best: number) {
+    const impact: Partial<Record<ScoreCategory, number>> = {};
+    for (const [cat, value] of Object.entries(values) as [ScoreCategory, number][]) {
+        impact[cat] = value - best;
+    }
+    return impact;
+}
@@ -0,0 +1,106 @@
+import { SerializedSession } from './GameSession';
+import { ClockSettings } from './TurnClock';
+import { DieValue, ScoreCategory } from './types';
+
+/**
+ * Wire format for local-network games. The relay server (scripts/lan-server.ts)
+ * only routes messages between the devices in a room: the host's GameSession
+ * is the authority, guests send it intents and mirror the snapshots it
+ * broadcasts back.
+ *
+ * Every member gets a token when it enters a room. A device that drops (a
+ * locked phone, a reload) rejoins with it and gets its member id, and so its
+ * seat, back along with the latest snapshot. If the host drops, the relay
+ * hands authority to the longest-standing player still online, who carries
+ * on from the last snapshot it mirrored.
+ */
+export const LAN_PORT = 3001;
+
+/** Default relay address: the machine serving the page, on the relay port. */
+export function defaultLanUrl(): string {
+    return `ws://${window.location.hostname}:${LAN_PORT}`;
+}
+
+/** Four letters, without the ones that are easy to misread (I, O). */
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+export const ROOM_CODE_LENGTH = 4;
+
+export function normalizeRoomCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z]/g, '').slice(0, ROOM_CODE_LENGTH);
+}
+
+export interface LanMember {
+    id: string;
+    name: string;
+    /** Watches only: takes no seat and can't send intents. */
+    spectator?: boolean;
+    /** Dropped but may still rejoin; the host plays its seat meanwhile. */
+    offline?: boolean;
+}
+
+/** What a guest asks the host to do on its own turn. */
+export type LanIntent =
+    | { type: 'roll' }
+    | { type: 'toggleHold'; index: number }
+    | { type: 'commitScore'; category: ScoreCategory };
+
+/** The host's view of the game, sent after every change. */
+export interface LanSnapshot {
+    /** Counts up across the whole game, through host changes; older snapshots are stale. */
+    seq: number;
+    session: SerializedSession;
+    /** Member id playing each seat; null for seats played on the host's device (its humans and CPUs). */
+    seats: (string | null)[];
+    board: string;
+    /** Set when this snapshot follows a roll, so every device animates the same outcome. */
+    roll?: { player: number; dice: DieValue[] };
+    /** The host's time limit, for showing the countdown: the active player's time left as sent, and whether it was running. */
+    clock?: { settings: ClockSettings; remaining: number; running: boolean };
+}
+
+export type ClientMessage =
+    | { type: 'create'; name: string }
+    | { type: 'join'; code: string; name: string; spectate?: boolean }
+    | { type: 'rejoin'; code: string; token: string }
+    | { type: 'leave' } // for good; a dropped connection can still rejoin
+    | { type: 'intent'; intent: LanIntent } // guest -> host
+    | { type: 'snapshot'; snapshot: LanSnapshot } // host -> everyone else
+    | { type: 'resync' }; // ask for the latest snapshot again
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * Whether parsed JSON is a message the relay understands. Anything can arrive
+ * on the socket, and one bad packet must not take the relay down for every room.
+ */
+export function isClientMessage(data: unknown): data is ClientMessage {
+    if (!isObject(data)) return false;
+    switch (data.type) {
+        case 'create':
+            return isString(data.name);
+        case 'join':
+            return isString(data.code) && isString(data.name) && (data.spectate === undefined || typeof data.spectate === 'boolean');
+        case 'rejoin':
+            return isString(data.code) && isString(data.token);
+        case 'leave':
+        case 'resync':
+            return true;
+        case 'intent':
+            return isObject(data.intent) && isString(data.intent.type);
+        case 'snapshot':
+            return isObject(data.snapshot) && typeof data.snapshot.seq === 'number';
+        default:
+            return false;
+    }
+}
+
+export type ServerMessage =
+    | { type: 'created'; code: string; memberId: string; token: string }
+    | { type: 'joined'; code: string; memberId: string; token: string; host: string; hostId: string; spectator?: boolean }
+    | { type: 'members'; members: LanMember[] } // everyone but the host, in joining order
+    | { type: 'host'; memberId: string; name: string; previous: string } // authority moved
+    | { type: 'intent'; from: string; intent: LanIntent }
+    | { type: 'snapshot'; snapshot: LanSnapshot }
+    | { type: 'closed'; reason: string }
+    | { type: 'error'; message: string };
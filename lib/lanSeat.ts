@@ -0,0 +1,39 @@
+/**
+ * The LAN room this browser tab belongs to, kept in sessionStorage so a
+ * reload or a tab the phone threw away can rejoin the same seat. Per tab, so
+ * two tabs on one machine stay two members.
+ */
+export interface LanSeat {
+    url: string;
+    code: string;
+    token: string;
+}
+
+const STORAGE_KEY = 'sarzee:lanSeat';
+
+export function saveLanSeat(seat: LanSeat) {
+    try {
+        window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(seat));
+    } catch {
+        // Rejoining just won't be offered
+    }
+}
+
+export function loadLanSeat(): LanSeat | null {
+    try {
+        const raw = window.sessionStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+        const seat = JSON.parse(raw) as LanSeat;
+        return typeof seat.code === 'string' && typeof seat.token === 'string' && typeof seat.url === 'string' ? seat : null;
+    } catch {
+        return null;
+    }
+}
+
+export function clearLanSeat() {
+    try {
+        window.sessionStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // ignore
+    }
+}
@@ -0,0 +1,115 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { gameOf, maxActions, ScoreEntry, submissionFromSession, SubmissionError, topScores, verifySubmission } from './leaderboard';
+import { CLASSIC_RULES } from './rulesets';
+import { addScores, readScores } from './scoreStore';
+import { computer, finishedGame, human } from './testGames';
+import assert from 'assert';
+
+// Two rolls with the first die held in between, then the best box
+const annVersusBot = (seed: number) => finishedGame([human('Ann', '#C01E32'), computer('Bot', 'expert', '#2056A2')], seed, undefined, (session) => {
+    session.roll();
+    session.toggleHold(0);
+    session.roll();
+    session.autoCommit();
+});
+
+const entry = (name: string, score: number, submittedAt: number, ruleSetId: ScoreEntry['ruleSetId'] = 'classic'): ScoreEntry =>
+    ({ key: `${ruleSetId}|${submittedAt}|0|${name}|${score}`, name, score, ruleSetId, playerCount: 1, submittedAt });
+
+async function runTests() {
+    console.log("Running Leaderboard Tests...");
+
+    console.log("Test 1: A replayed game lists its people with the scores the replay ends on");
+    const session = annVersusBot(7);
+    const submission = submissionFromSession(session)!;
+    const entries = verifySubmission(JSON.parse(JSON.stringify(submission)), 1000);
+    assert.deepStrictEqual(entries.map((e) => [e.name, e.score, e.playerCount, e.submittedAt]), [['Ann', session.getEngine(0).getGameState().totalScore, 2, 1000]]);
+    assert.strictEqual(verifySubmission(submission, 2000)[0].key, entries[0].key); // sent again from another device
+    console.log("  PASS");
+
+    console.log("Test 2: Changed dice, a different seed, a missing turn, an overlong log or a raised score are refused");
+    const tampered = JSON.parse(JSON.stringify(submission));
+    const roll = tampered.players[0].actions.find((a: { type: string }) => a.type === 'roll');
+    roll.dice[4] = roll.dice[4] === 6 ? 1 : roll.dice[4] + 1;
+    assert.throws(() => verifySubmission(tampered), SubmissionError);
+    assert.throws(() => verifySubmission({ ...submission, seed: 8 }), SubmissionError);
+    const unfinished = JSON.parse(JSON.stringify(submission));
+    unfinished.players[1].actions = unfinished.players[1].actions.slice(0, -1);
+    assert.throws(() => verifySubmission(unfinished), /not finished/);
+    assert.throws(() => verifySubmission({ ...submission, ruleSetId: 'poker' }), /Unknown rules/);
+    for (const ruleSetId of ['toString', 'constructor', '__proto__']) {
+        assert.throws(() => verifySubmission({ ...submission, ruleSetId }), /Unknown rules/);
+    }
+    assert.throws(() => verifySubmission({ ...submission, players: submission.players.map((p) => ({ ...p, cpu: true })) }), /Nobody human/);
+    const padded = { ...submission, players: submission.players.map((p) => ({ ...p, actions: [...p.actions, ...Array(maxActions(CLASSIC_RULES)).fill({ type: 'toggleHold', index: 0 })] })) };
+    assert.throws(() => verifySubmission(padded), /Invalid action log/);
+    const raised = JSON.parse(JSON.stringify(submission));
+    raised.players[0].score = 1575; // anything besides the log is ignored
+    assert.strictEqual(verifySubmission(raised, 1000)[0].score, entries[0].score);
+    console.log("  PASS");
+
+    console.log("Test 3: A long name is cut to fit rather than losing the game");
+    const long = { ...submission, players: submission.players.map((p, i) => (i === 0 ? { ...p, name: `  ${'Annabelle'.repeat(10)}  ` } : p)) };
+    const [cut] = verifySubmission(long, 1000);
+    assert.strictEqual(cut.name, 'Annabelle'.repeat(10).slice(0, 40));
+    assert.strictEqual(cut.score, entries[0].score);
+    console.log("  PASS");
+
+    console.log("Test 4: Games without a seed or without a person aren't sent");
+    assert.strictEqual(submissionFromSession(finishedGame([human('Ann')], { next: () => 3 })), null);
+    assert.strictEqual(submissionFromSession(finishedGame([computer('Bot')], 1)), null);
+    console.log("  PASS");
+
+    console.log("Test 5: Tabs keep the variant and the last day or week, best first");
+    const hour = 60 * 60 * 1000;
+    const now = 30 * 24 * hour;
+    const board = [
+        entry('Old', 300, now - 10 * 24 * hour),
+        entry('Week', 250, now - 3 * 24 * hour),
+        entry('Today', 200, now - hour),
+        entry('Early', 250, now - 4 * 24 * hour),
+        entry('Yatzy', 350, now - hour, 'yatzy'),
+    ];
+    assert.deepStrictEqual(topScores(board, 'classic', 'all', now).map((e) => e.name), ['Old', 'Early', 'Week', 'Today']);
+    assert.deepStrictEqual(topScores(board, 'classic', 'weekly', now).map((e) => e.name), ['Early', 'Week', 'Today']);
+    assert.deepStrictEqual(topScores(board, 'classic', 'daily', now).map((e) => e.name), ['Today']);
+    assert.deepStrictEqual(topScores(board, 'classic', 'all', now, 2).map((e) => e.name), ['Old', 'Early']);
+    console.log("  PASS");
+
+    console.log("Test 6: The scores file keeps each key once, even with writes racing");
+    const dir = await mkdtemp(path.join(tmpdir(), 'sarzee-scores-'));
+    const file = path.join(dir, 'data', 'scores.json');
+    try {
+        assert.deepStrictEqual(await readScores(file), []);
+        const added = await Promise.all([addScores(board.slice(0, 3), file), addScores(board.slice(2), file)]);
+        assert.deepStrictEqual(added, [3, 2]);
+        assert.strictEqual(await addScores(board, file), 0);
+        assert.deepStrictEqual((await readScores(file)).map((e) => e.name), ['Old', 'Week', 'Today', 'Early', 'Yatzy']);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+    console.log("  PASS");
+
+    console.log("Test 7: A seed already on the board isn't listed again, however the new game went");
+    const seedDir = await mkdtemp(path.join(tmpdir(), 'sarzee-scores-'));
+    const seedFile = path.join(seedDir, 'scores.json');
+    try {
+        assert.strictEqual(await addScores(entries, seedFile), 1);
+        const replayed = finishedGame([computer('Bot'), human('Ann')], 7); // same seed, dice known in advance
+        assert.strictEqual(await addScores(verifySubmission(submissionFromSession(replayed)), seedFile), 0);
+        assert.strictEqual(await addScores(verifySubmission(submissionFromSession(finishedGame([human('Ann')], 8))), seedFile), 1);
+        assert.deepStrictEqual((await readScores(seedFile)).map(gameOf), ['classic|7', 'classic|8']);
+    } finally {
+        await rm(seedDir, { recursive: true, force: true });
+    }
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
@@ -0,0 +1,193 @@
+import { SeededDiceSource } from './DiceSource';
+import { GameSession } from './GameSession';
+import { EngineAction } from './SarzeeEngine';
+import { isRuleSetId, RULE_SETS } from './rulesets';
+import { RuleSet, RuleSetId } from './types';
+
+/**
+ * A leaderboard shared by every device that can reach the server (an office
+ * machine running `next start`). A finished game is sent whole: its seed and
+ * every player's action log. The server doesn't take the scores on trust; it
+ * replays the game from the seed, so every roll has to be the one the seed
+ * gives at that point and every move has to be legal, and the scores are
+ * whatever that replay ends on. Like game links this keeps honest tables
+ * honest; someone who reads this file can still search for a lucky seed.
+ * A seed is shown once its game is over, so each seed goes on the board once:
+ * a second game on it knew every roll in advance.
+ */
+export interface ScoreSubmission {
+    ruleSetId: RuleSetId;
+    seed: number;
+    players: SubmittedSeat[]; // seat order
+}
+
+export interface SubmittedSeat {
+    name: string;
+    cpu: boolean;
+    actions: EngineAction[];
+}
+
+/** One person's result on the board. Computer seats are checked with the game but not listed. */
+export interface ScoreEntry {
+    /**
+     * Rules, seed, seat, name and score. Same game, same seat, same key: a game
+     * sent by every device that saw it end is listed once.
+     */
+    key: string;
+    name: string;
+    score: number;
+    ruleSetId: RuleSetId;
+    playerCount: number;
+    submittedAt: number;
+}
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Tabs of the leaderboard; daily and weekly are the last 24 hours and 7 days, so every time zone agrees. */
+export const LEADERBOARD_PERIODS: { id: LeaderboardPeriod; label: string; ms: number | null }[] = [
+    { id: 'daily', label: 'Daily', ms: DAY_MS },
+    { id: 'weekly', label: 'Weekly', ms: 7 * DAY_MS },
+    { id: 'all', label: 'All time', ms: null },
+];
+
+export const LEADERBOARD_SIZE = 20;
+const MAX_SEATS = 8;
+const MAX_NAME_LENGTH = 40; // longer names are cut, not refused
+// A turn is at most three rolls and a commit, with holds only between rolls;
+// each die may be held and let go a couple of times there before the next roll
+const ROLLS_PER_TURN = 3;
+const TOGGLES_PER_DIE = 4;
+
+/** The longest action log one seat can send for a variant; longer logs are refused before any replay. */
+export function maxActions(ruleSet: RuleSet): number {
+    return ruleSet.turns * (ROLLS_PER_TURN + (ROLLS_PER_TURN - 1) * ruleSet.diceCount * TOGGLES_PER_DIE + 1);
+}
+
+export class SubmissionError extends Error { }
+
+/** What to send for a finished game, or null when it can't be checked (no seed, or nobody human played). */
+export function submissionFromSession(session: GameSession): ScoreSubmission | null {
+    const dice = session.getDiceState();
+    const players = session.getPlayers();
+    if (!dice || !session.isGameOver() || players.every((p) => p.cpu)) return null;
+    return {
+        ruleSetId: session.getRuleSet().id,
+        seed: dice.seed,
+        players: players.map((p, i) => ({ name: p.name, cpu: !!p.cpu, actions: session.getEngine(i).getActionLog() })),
+    };
+}
+
+/**
+ * Replay a submitted game from its seed and return the entries for its human
+ * seats. Throws a SubmissionError saying what didn't add up.
+ */
+export function verifySubmission(data: unknown, submittedAt = Date.now()): ScoreEntry[] {
+    const submission = data as ScoreSubmission;
+    if (!isRuleSetId(submission?.ruleSetId)) throw new SubmissionError('Unknown rules');
+    const ruleSet = RULE_SETS[submission.ruleSetId];
+    if (!Number.isInteger(submission.seed) || submission.seed < 0 || submission.seed > 0xffffffff) {
+        throw new SubmissionError('Missing or invalid seed');
+    }
+    const seats = submission.players;
+    if (!Array.isArray(seats) || seats.length === 0 || seats.length > MAX_SEATS) throw new SubmissionError('Invalid players');
+    const actionLimit = maxActions(ruleSet);
+    for (const seat of seats) {
+        if (typeof seat?.name !== 'string' || !seat.name.trim()) throw new SubmissionError('Invalid player name');
+        if (!Array.isArray(seat.actions) || seat.actions.length > actionLimit) throw new SubmissionError(`Invalid action log for ${seat.name.trim().slice(0, MAX_NAME_LENGTH)}`);
+    }
+    if (seats.every((seat) => seat.cpu)) throw new SubmissionError('Nobody human played this game');
+
+    const names = seats.map((seat) => seat.name.trim().slice(0, MAX_NAME_LENGTH));
+    const session = new GameSession(
+        ruleSet,
+        names.map((name) => ({ name, diceColor: '#FFFFFF', cpu: null })),
+        new SeededDiceSource(submission.seed)
+    );
+
+    // Turns go round the table, so feed each seat's log one turn (up to its commit) at a time
+    const cursors = seats.map(() => 0);
+    try {
+        while (!session.isGameOver()) {
+            const player = session.getActivePlayer();
+            const actions = seats[player].actions;
+            if (cursors[player] >= actions.length) throw new SubmissionError(`${names[player]}'s game is not finished`);
+            const action = actions[cursors[player]++];
+            if (action?.type === 'roll') session.roll(); // the seed decides; the log must agree, checked below
+            else if (action?.type === 'toggleHold') session.toggleHold(action.index);
+            else if (action?.type === 'commitScore') session.commitScore(action.category);
+            else throw new SubmissionError('Unknown action');
+        }
+    } catch (e) {
+        if (e instanceof SubmissionError) throw e;
+        throw new SubmissionError(`The game does not replay: ${(e as Error).message}`);
+    }
+
+    // A move the engine refused, or dice the seed didn't give, leaves the logs apart
+    seats.forEach((seat, i) => {
+        if (JSON.stringify(session.getEngine(i).getActionLog()) !== JSON.stringify(seat.actions)) {
+            throw new SubmissionError(`${names[i]}'s game does not match its seed`);
+        }
+    });
+
+    return seats.flatMap((seat, i) => {
+        if (seat.cpu) return [];
+        const score = session.getEngine(i).getGameState().totalScore;
+        return [{
+            key: [ruleSet.id, submission.seed, i, names[i], score].join('|'),
+            name: names[i],
+            score,
+            ruleSetId: ruleSet.id,
+            playerCount: seats.length,
+            submittedAt,
+        }];
+    });
+}
+
+/** The game an entry came from: its rules and seed, the start of its key. */
+export function gameOf(entry: ScoreEntry): string {
+    return entry.key.split('|', 2).join('|');
+}
+
+/** The best scores for one variant and period, highest first; ties go to whoever got there first. */
+export function topScores(entries: ScoreEntry[], ruleSetId: RuleSetId, period: LeaderboardPeriod, now = Date.now(), limit = LEADERBOARD_SIZE): ScoreEntry[] {
+    const ms = LEADERBOARD_PERIODS.find((p) => p.id === period)?.ms ?? null;
+    return entries
+        .filter((e) => e.ruleSetId === ruleSetId && (ms === null || e.submittedAt > now - ms))
+        .sort((a, b) => b.score - a.score || a.submittedAt - b.submittedAt)
+        .slice(0, limit);
+}
+
+const SCORES_URL = '/api/scores';
+
+/** Send a finished game to the leaderboard. Resolves to false when it wasn't taken (no server, or refused). */
+export async function submitScores(session: GameSession): Promise<boolean> {
+    const submission = submissionFromSession(session);
+    if (!submission) return false;
+    try {
+        const res = await fetch(SCORES_URL, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(submission),
+        });
+        if (!res.ok) throw new Error(`HTTP ${res.status}: ${(await res.json().catch(() => null))?.error ?? res.statusText}`);
+        return true;
+    } catch (e) {
+        // A static deploy has no API; the game is still in this browser's history
+        console.warn('Score not sent to the leaderboard', e);
+        return false;
+    }
+}
+
+/** The leaderboard for one variant and period, or null when there is no server to ask. */
+export async function fetchLeaderboard(ruleSetId: RuleSetId, period: LeaderboardPeriod): Promise<ScoreEntry[] | null> {
+    try {
+        const res = await fetch(`${SCORES_URL}?${new URLSearchParams({ ruleSet: ruleSetId, period })}`, { cache: 'no-store' });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return ((await res.json()) as { entries: ScoreEntry[] }).entries;
+    } catch (e) {
+        console.warn('Leaderboard unavailable', e);
+        return null;
+    }
+}
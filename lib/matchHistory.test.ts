@@ -0,0 +1,41 @@
+import { filterMatches, matchFromSession } from './matchHistory';
+import { computer, finishedGame, human } from './testGames';
+import assert from 'assert';
+
+const annVersusBot = (seed: number) => finishedGame([human('Ann', '#C01E32'), computer('Bot', 'expert', '#2056A2')], seed);
+
+async function runTests() {
+    console.log("Running Match History Tests...");
+
+    console.log("Test 1: A record keeps every final scorecard and placing");
+    const session = annVersusBot(99);
+    const match = matchFromSession(session, 'the-forge', ['p1', null], 1000);
+    assert.strictEqual(match.ruleSetId, 'classic');
+    assert.strictEqual(match.seed, 99);
+    assert.deepStrictEqual(match.players.map((p) => [p.name, p.cpu, p.profileId]), [['Ann', null, 'p1'], ['Bot', 'expert', null]]);
+    match.players.forEach((p, i) => {
+        assert.deepStrictEqual(p.state, session.getEngine(i).getGameState());
+        assert.strictEqual(p.place, session.getStandings().find((s) => s.player === i)!.place);
+    });
+    console.log("  PASS");
+
+    console.log("Test 2: The same game seen end twice gets the same key");
+    assert.strictEqual(matchFromSession(annVersusBot(99), 'the-forge', [], 2000).key, match.key);
+    assert.notStrictEqual(matchFromSession(annVersusBot(100), 'the-forge', [], 2000).key, match.key);
+    console.log("  PASS");
+
+    console.log("Test 3: Filters by player and board, newest first");
+    const older = { ...match, finishedAt: 500, board: 'pirates-cove' };
+    const other = { ...match, finishedAt: 3000, players: match.players.map((p) => ({ ...p, name: `${p.name}2` })) };
+    assert.deepStrictEqual(filterMatches([older, match, other], {}).map((m) => m.finishedAt), [3000, 1000, 500]);
+    assert.deepStrictEqual(filterMatches([older, match, other], { player: ' ann ' }).map((m) => m.finishedAt), [1000, 500]);
+    assert.deepStrictEqual(filterMatches([older, match, other], { player: 'Ann', board: 'the-forge' }).map((m) => m.finishedAt), [1000]);
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
@@ -0,0 +1,128 @@
+import { CpuDifficulty } from './CpuAgent';
+import { GameSession } from './GameSession';
+import { GameState, RuleSetId } from './types';
+
+/**
+ * Every finished game, kept in IndexedDB so the table can look back at old
+ * scorecards. Like profiles, history belongs to this browser: each device
+ * that saw a game end keeps its own copy.
+ */
+export interface MatchPlayer {
+    name: string;
+    diceColor: string;
+    cpu: CpuDifficulty | null;
+    profileId: string | null;
+    place: number;
+    /** Final state: the scorecard, totals and Yahtzee bonus. */
+    state: GameState;
+}
+
+export interface MatchRecord {
+    id?: number; // assigned when stored
+    /** Same game, same key: a game seen end twice (a reopened link, a replay) is stored once. */
+    key: string;
+    finishedAt: number;
+    board: string;
+    ruleSetId: RuleSetId;
+    seed: number | null;
+    players: MatchPlayer[]; // seat order
+}
+
+export interface MatchFilter {
+    player?: string; // a name, matched case-insensitively
+    board?: string;
+}
+
+/** The record for a finished game. */
+export function matchFromSession(session: GameSession, board: string, seatProfiles: (string | null)[], finishedAt = Date.now()): MatchRecord {
+    const standings = session.getStandings();
+    const players = session.getPlayers().map((p, i) => ({
+        name: p.name,
+        diceColor: p.diceColor,
+        cpu: p.cpu?.difficulty ?? null,
+        profileId: seatProfiles[i] ?? null,
+        place: standings.find((s) => s.player === i)!.place,
+        state: session.getEngine(i).getGameState(),
+    }));
+    const seed = session.getDiceState()?.seed ?? null;
+    const ruleSetId = session.getRuleSet().id;
+    // Without a seed two games can't be told apart, so each finish counts
+    const game = seed === null ? String(finishedAt) : String(seed);
+    return {
+        key: [ruleSetId, game, ...players.map((p) => `${p.name}:${p.state.totalScore}`)].join('|'),
+        finishedAt,
+        board,
+        ruleSetId,
+        seed,
+        players,
+    };
+}
+
+/** Matches involving the player and played on the board, newest first. */
+export function filterMatches(matches: MatchRecord[], filter: MatchFilter): MatchRecord[] {
+    const name = filter.player?.trim().toLowerCase();
+    return matches
+        .filter((m) => !filter.board || m.board === filter.board)
+        .filter((m) => !name || m.players.some((p) => p.name.toLowerCase() === name))
+        .sort((a, b) => b.finishedAt - a.finishedAt);
+}
+
+const DB_NAME = 'sarzee';
+const DB_VERSION = 1;
+const STORE = 'matches';
+
+function openDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+            store.createIndex('key', 'key', { unique: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+// One request in its own transaction; the database is closed again afterwards
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const request = run(db.transaction(STORE, mode).objectStore(STORE));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    } finally {
+        db.close();
+    }
+}
+
+/** Store a finished game. Resolves false if it was already stored or storage is unavailable. */
+export async function saveMatch(match: MatchRecord): Promise<boolean> {
+    try {
+        await withStore('readwrite', (store) => store.add(match));
+        return true;
+    } catch (e) {
+        if ((e as DOMException | null)?.name !== 'ConstraintError') console.warn('Could not save match history', e);
+        return false;
+    }
+}
+
+/** Every stored game, newest first; empty if storage is unavailable. */
+export async function loadMatches(): Promise<MatchRecord[]> {
+    try {
+        const matches = await withStore<MatchRecord[]>('readonly', (store) => store.getAll());
+        return matches.sort((a, b) => b.finishedAt - a.finishedAt);
+    } catch (e) {
+        console.warn('Could not read match history', e);
+        return [];
+    }
+}
+
+export async function deleteMatch(id: number): Promise<void> {
+    try {
+        await withStore('readwrite', (store) => store.delete(id));
+    } catch (e) {
+        console.warn('Could not delete from match history', e);
+    }
+}
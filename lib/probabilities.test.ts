@@ -0,0 +1,54 @@
+import { computeCategoryOdds } from './probabilities';
+import { CLASSIC_RULES, GENERALA_RULES, MAXI_YATZY_RULES } from './rulesets';
+import { DieValue, ScoreCategory } from './types';
+import assert from 'assert';
+
+const close = (actual: number | undefined, expected: number, label: string) => {
+    assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-6, `${label}: expected ${expected}, got ${actual}`);
+};
+
+async function runTests() {
+    console.log("Running Probability Tests...");
+
+    console.log("Test 1: Holding 2-3-4-5 for the large straight");
+    const open: DieValue[] = [2, 3, 4, 5, 5];
+    const holdStraight = [true, true, true, true, false];
+    close(computeCategoryOdds(CLASSIC_RULES, open, holdStraight, 1)[ScoreCategory.LargeStraight], 2 / 6, 'one roll');
+    close(computeCategoryOdds(CLASSIC_RULES, open, holdStraight, 2)[ScoreCategory.LargeStraight], 1 - (4 / 6) ** 2, 'two rolls');
+    console.log("  PASS");
+
+    console.log("Test 2: Made boxes are certain, impossible ones are zero after the last roll");
+    const odds = computeCategoryOdds(CLASSIC_RULES, [6, 6, 6, 6, 6], [false, false, false, false, false], 0);
+    assert.strictEqual(odds[ScoreCategory.Yahtzee], 1);
+    assert.strictEqual(odds[ScoreCategory.Sixes], 1);
+    assert.strictEqual(odds[ScoreCategory.Ones], 0);
+    assert.strictEqual(odds[ScoreCategory.SmallStraight], 0);
+    console.log("  PASS");
+
+    console.log("Test 3: Yahtzee from scratch matches the known 4.6%");
+    const fresh = computeCategoryOdds(CLASSIC_RULES, [1, 1, 1, 1, 1], [false, false, false, false, false], 3);
+    close(fresh[ScoreCategory.Yahtzee], 2783176 / 60466176, 'yahtzee in three rolls');
+    close(fresh[ScoreCategory.Chance], 1, 'chance');
+    console.log("  PASS");
+
+    console.log("Test 4: Six dice rule sets are supported");
+    const maxi = computeCategoryOdds(MAXI_YATZY_RULES, [1, 2, 3, 4, 5, 1], [true, true, true, true, true, false], 1);
+    close(maxi[ScoreCategory.FullStraight], 1 / 6, 'full straight');
+    console.log("  PASS");
+
+    console.log("Test 5: Doble Generala only counts once the Generala box holds 50");
+    const fives: DieValue[] = [5, 5, 5, 5, 5];
+    const none = [false, false, false, false, false];
+    const empty = { ...Object.fromEntries(GENERALA_RULES.categories.map((c) => [c.id, null])) };
+    close(computeCategoryOdds(GENERALA_RULES, fives, none, 0, empty)[ScoreCategory.DoubleYahtzee], 0, 'no Generala yet');
+    close(computeCategoryOdds(GENERALA_RULES, fives, none, 0, { ...empty, [ScoreCategory.Yahtzee]: 50 })[ScoreCategory.DoubleYahtzee], 1, 'after a Generala');
+    close(computeCategoryOdds(GENERALA_RULES, fives, none, 0, { ...empty, [ScoreCategory.Yahtzee]: 0 })[ScoreCategory.DoubleYahtzee], 0, 'Generala scratched');
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
@@ -0,0 +1,162 @@
+import { DieValue, RuleSet, ScoreCategory, Scorecard, UPPER_CATEGORIES } from './types';
+
+/**
+ * Turn odds for the analytics overlay.
+ *
+ * For every box of the rule set this computes the exact probability of the
+ * dice "making" it by the end of the turn, if the player keeps the currently
+ * held dice for the next roll and then rerolls as well as possible for that
+ * one box. A lower box is made when it scores anything; an upper box counts
+ * once three of its face are showing (the pace for the upper bonus).
+ * Boxes that depend on the scorecard (Doble Generala needs a Generala
+ * already scored) are judged against the player's own. Joker scoring is not
+ * considered.
+ */
+export type CategoryOdds = Partial<Record<ScoreCategory, number>>;
+
+/** Three of a face is the pace needed for the upper bonus. */
+export const UPPER_TARGET_COUNT = 3;
+
+// --- Dice multisets, per dice count -----------------------------------------
+
+interface MultisetTables {
+    diceCount: number;
+    keeps: number[][]; // face counts, index 1..6, sorted by size
+    index: Map<string, number>;
+    add: Int32Array; // keep + one die of face f+1, or -1 once full
+    remove: Int32Array; // keep - one die of face f+1, or -1 if absent
+    firstFull: number;
+}
+
+const tablesByCount = new Map<number, MultisetTables>();
+
+function tablesFor(diceCount: number): MultisetTables {
+    const cached = tablesByCount.get(diceCount);
+    if (cached) return cached;
+
+    const keeps: number[][] = [];
+    const build = (face: number, left: number, counts: number[]) => {
+        if (face > 6) {
+            keeps.push([...counts]);
+            return;
+        }
+        for (let c = 0; c <= left; c++) {
+            counts[face] = c;
+            build(face + 1, left - c, counts);
+        }
+        counts[face] = 0;
+    };
+    build(1, diceCount, new Array(7).fill(0));
+
+    const size = (counts: number[]) => counts.reduce((a, b) => a + b, 0);
+    keeps.sort((a, b) => size(a) - size(b));
+    const index = new Map(keeps.map((k, i) => [k.join(','), i]));
+
+    const add = new Int32Array(keeps.length * 6).fill(-1);
+    const remove = new Int32Array(keeps.length * 6).fill(-1);
+    keeps.forEach((k, i) => {
+        for (let f = 1; f <= 6; f++) {
+            if (size(k) < diceCount) {
+                const next = [...k];
+                next[f]++;
+                add[i * 6 + f - 1] = index.get(next.join(','))!;
+            }
+            if (k[f] > 0) {
+                const prev = [...k];
+                prev[f]--;
+                remove[i * 6 + f - 1] = index.get(prev.join(','))!;
+            }
+        }
+    });
+
+    const tables = {
+        diceCount,
+        keeps,
+        index,
+        add,
+        remove,
+        firstFull: keeps.findIndex((k) => size(k) === diceCount),
+    };
+    tablesByCount.set(diceCount, tables);
+    return tables;
+}
+
+const countsOf = (dice: DieValue[]) => {
+    const counts = new Array(7).fill(0);
+    dice.forEach((d) => counts[d]++);
+    return counts;
+};
+
+const diceOf = (counts: number[]): DieValue[] => {
+    const dice: DieValue[] = [];
+    for (let f = 1; f <= 6; f++) for (let c = 0; c < counts[f]; c++) dice.push(f as DieValue);
+    return dice;
+};
+
+/**
+ * Probability of ending the turn with `made` true, keeping `keptIndex` for the
+ * next roll with `rollsLeft` rolls to go and rerolling optimally afterwards.
+ */
+function chanceOfMaking(t: MultisetTables, made: Uint8Array, keptIndex: number, rollsLeft: number): number {
+    const n = t.keeps.length;
+    let atRoll = new Float64Array(n); // success chance holding a full roll, per rerolls left
+    for (let k = t.firstFull; k < n; k++) atRoll[k] = made[k];
+
+    const expected = new Float64Array(n);
+    for (let m = 1; m <= rollsLeft; m++) {
+        // Chance after rolling the missing dice of each keep, largest keeps first
+        for (let k = n - 1; k >= 0; k--) {
+            if (k >= t.firstFull) {
+                expected[k] = atRoll[k];
+                continue;
+            }
+            let sum = 0;
+            for (let f = 0; f < 6; f++) sum += expected[t.add[k * 6 + f]];
+            expected[k] = sum / 6;
+        }
+        if (m === rollsLeft) break;
+
+        // Best keep out of every roll, smallest first
+        const best = new Float64Array(n);
+        for (let k = 0; k < n; k++) {
+            let b = expected[k];
+            for (let f = 0; f < 6; f++) {
+                const prev = t.remove[k * 6 + f];
+                if (prev >= 0 && best[prev] > b) b = best[prev];
+            }
+            best[k] = b;
+        }
+        atRoll = best;
+    }
+    return rollsLeft === 0 ? made[keptIndex] : expected[keptIndex];
+}
+
+export function computeCategoryOdds(
+    ruleSet: RuleSet,
+    diceValues: DieValue[],
+    heldDice: boolean[],
+    rollsLeft: number,
+    scorecard: Scorecard = {}
+): CategoryOdds {
+    const t = tablesFor(ruleSet.diceCount);
+    // The roll the dice on the table came from; it changes bonuses, never whether a box scores at all
+    const context = { rollNumber: Math.max(1, 3 - rollsLeft), scorecard };
+
+    // Before the first roll nothing is on the table; after the last, nothing changes
+    const kept = rollsLeft >= 3 ? [] : rollsLeft === 0 ? diceValues : diceValues.filter((_, i) => heldDice[i]);
+    const keptIndex = t.index.get(countsOf(kept).join(','))!;
+
+    const odds: CategoryOdds = {};
+    for (const rule of ruleSet.categories) {
+        const upperFace = UPPER_CATEGORIES.indexOf(rule.id) + 1;
+        const made = new Uint8Array(t.keeps.length);
+        for (let k = t.firstFull; k < t.keeps.length; k++) {
+            const counts = t.keeps[k];
+            made[k] = rule.section === 'upper' && upperFace > 0
+                ? Number(counts[upperFace] >= UPPER_TARGET_COUNT)
+                : Number(rule.score(diceOf(counts), context) > 0);
+        }
+        odds[rule.id] = chanceOfMaking(t, made, keptIndex, Math.min(rollsLeft, 3));
+    }
+    return odds;
+}
@@ -0,0 +1,60 @@
+import { createProfile, recordGame, summarizeStats } from './profiles';
+import { CLASSIC_RULES, GENERALA_RULES } from './rulesets';
+import { finishedGame, human } from './testGames';
+import { ScoreCategory } from './types';
+import assert from 'assert';
+
+async function runTests() {
+    console.log("Running Profile Tests...");
+
+    console.log("Test 1: A finished game adds up into the lifetime stats");
+    const session = finishedGame([human('Ann', '#C01E32'), human('Bo', '#2056A2')], 7);
+    const standings = session.getStandings();
+    let ann = createProfile('Ann', '#C01E32', 'pirates-cove');
+    let bo = createProfile('Bo', '#2056A2');
+    const seat = (player: number) => ({
+        state: session.getEngine(player).getGameState(),
+        playerCount: 2,
+        place: standings.find((s) => s.player === player)!.place,
+    });
+    ann = recordGame(ann, seat(0));
+    bo = recordGame(bo, seat(1));
+    const annState = session.getEngine(0).getGameState();
+    const summary = summarizeStats(ann.stats.classic, 'classic');
+    assert.strictEqual(summary.gamesPlayed, 1);
+    assert.strictEqual(summary.averageScore, annState.totalScore);
+    assert.strictEqual(summary.bestScore, annState.totalScore);
+    assert.strictEqual(summary.upperBonusRate, annState.upperBonus > 0 ? 1 : 0);
+    assert.strictEqual(summary.categoryAverages.length, CLASSIC_RULES.categories.length);
+    const boxes = summary.categoryAverages.reduce((sum, c) => sum + c.average, 0);
+    assert.strictEqual(boxes + annState.upperBonus + annState.yahtzeeBonus, annState.totalScore);
+    assert.strictEqual(summary.wins + summarizeStats(bo.stats.classic, 'classic').wins, standings[0].place === standings[1].place ? 2 : 1);
+    console.log("  PASS");
+
+    console.log("Test 2: Averages run across games, and each variant keeps its own stats");
+    const state = annState;
+    const better = { ...state, totalScore: state.totalScore + 100, scorecard: { ...state.scorecard, [ScoreCategory.Chance]: 30 } };
+    ann = recordGame(ann, { state: better, playerCount: 1, place: 1 });
+    const twoGames = summarizeStats(ann.stats.classic, 'classic');
+    assert.strictEqual(twoGames.gamesPlayed, 2);
+    assert.strictEqual(twoGames.averageScore, state.totalScore + 50);
+    assert.strictEqual(twoGames.bestScore, state.totalScore + 100);
+    assert.strictEqual(twoGames.winRate, summary.winRate); // playing alone isn't a win
+    const chance = twoGames.categoryAverages.find((c) => c.category === ScoreCategory.Chance)!;
+    assert.strictEqual(chance.average, ((state.scorecard[ScoreCategory.Chance] ?? 0) + 30) / 2);
+
+    const generala = finishedGame([human('Ann', '#C01E32')], 7, GENERALA_RULES);
+    ann = recordGame(ann, { state: generala.getEngine(0).getGameState(), playerCount: 1, place: 1 });
+    assert.strictEqual(summarizeStats(ann.stats.classic, 'classic').gamesPlayed, 2);
+    assert.strictEqual(summarizeStats(ann.stats.generala, 'generala').gamesPlayed, 1);
+    assert.strictEqual(summarizeStats(ann.stats.generala, 'generala').upperBonusRate, null); // no upper bonus in Generala
+    assert.strictEqual(summarizeStats(undefined, 'yatzy').averageScore, null);
+    console.log("  PASS");
+
+    console.log("ALL TESTS PASSED");
+}
+
+runTests().catch(e => {
+    console.error("TEST FAILED:", e);
+    process.exit(1);
+});
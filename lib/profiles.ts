@@ -0,0 +1,152 @@
+import { AchievementId } from './achievements';
+import { getRuleSet } from './rulesets';
+import { getTieBreaker } from './standings';
+import { GameState, RuleSetId, ScoreCategory } from './types';
+
+/**
+ * Local player profiles: a name picked from a list instead of typed every
+ * game, with the player's usual dice color and board, and lifetime stats
+ * built up from every finished game they sat in. Stats are kept per rule
+ * variant, since a box is worth different things under different rules.
+ * Everything lives in localStorage, so profiles belong to this browser.
+ */
+export interface PlayerProfile {
+    id: string;
+    name: string;
+    diceColor: string;
+    favoriteBoard: string | null;
+    createdAt: number;
+    stats: Partial<Record<RuleSetId, ProfileStats>>;
+    /** When each badge was first earned. */
+    achievements?: Partial<Record<AchievementId, number>>;
+}
+
+export interface ProfileStats {
+    gamesPlayed: number;
+    /** Games with at least one other player; wins only count there, shared first places included. */
+    versusGames: number;
+    wins: number;
+    scoreSum: number;
+    bestScore: number;
+    yahtzees: number; // the Yahtzee box plus every bonus
+    upperBonuses: number;
+    /** Points and games per box; scratches count as 0. */
+    categories: Partial<Record<ScoreCategory, { sum: number; count: number }>>;
+}
+
+/** One seat's result in a finished game. */
+export interface FinishedSeat {
+    state: GameState;
+    playerCount: number;
+    place: number;
+}
+
+export interface StatsSummary {
+    gamesPlayed: number;
+    wins: number;
+    winRate: number | null; // null without a game against anyone
+    averageScore: number | null;
+    bestScore: number | null;
+    yahtzees: number;
+    upperBonusRate: number | null; // null when the rules have no upper bonus
+    categoryAverages: { category: ScoreCategory; average: number }[];
+}
+
+export const emptyStats = (): ProfileStats => ({
+    gamesPlayed: 0,
+    versusGames: 0,
+    wins: 0,
+    scoreSum: 0,
+    bestScore: 0,
+    yahtzees: 0,
+    upperBonuses: 0,
+    categories: {},
+});
+
+/** Stats with one more finished game counted. */
+export function addGameToStats(stats: ProfileStats, seat: FinishedSeat): ProfileStats {
+    const { state } = seat;
+    const ruleSet = getRuleSet(state.ruleSetId);
+    const categories = { ...stats.categories };
+    for (const rule of ruleSet.categories) {
+        const box = categories[rule.id] ?? { sum: 0, count: 0 };
+        categories[rule.id] = { sum: box.sum + (state.scorecard[rule.id] ?? 0), count: box.count + 1 };
+    }
+    const versus = seat.playerCount > 1;
+    return {
+        gamesPlayed: stats.gamesPlayed + 1,
+        versusGames: stats.versusGames + (versus ? 1 : 0),
+        wins: stats.wins + (versus && seat.place === 1 ? 1 : 0),
+        scoreSum: stats.scoreSum + state.totalScore,
+        bestScore: Math.max(stats.bestScore, state.totalScore),
+        yahtzees: stats.yahtzees + getTieBreaker('yahtzees').value(state, ruleSet),
+        upperBonuses: stats.upperBonuses + (state.upperBonus > 0 ? 1 : 0),
+        categories,
+    };
+}
+
+/** Profile with a finished game added to the stats for its rules. */
+export function recordGame(profile: PlayerProfile, seat: FinishedSeat): PlayerProfile {
+    const id = seat.state.ruleSetId;
+    return { ...profile, stats: { ...profile.stats, [id]: addGameToStats(profile.stats[id] ?? emptyStats(), seat) } };
+}
+
+/** Profile with a badge earned; one it already has keeps its first date. */
+export function unlockAchievement(profile: PlayerProfile, id: AchievementId, at = Date.now()): PlayerProfile {
+    if (profile.achievements?.[id]) return profile;
+    return { ...profile, achievements: { ...profile.achievements, [id]: at } };
+}
+
+/** Rates and averages for one variant's stats; box averages follow that variant's scorecard order. */
+export function summarizeStats(stats: ProfileStats | undefined, ruleSetId: RuleSetId): StatsSummary {
+    const s = stats ?? emptyStats();
+    const ruleSet = getRuleSet(ruleSetId);
+    const played = s.gamesPlayed > 0;
+    return {
+        gamesPlayed: s.gamesPlayed,
+        wins: s.wins,
+        winRate: s.versusGames > 0 ? s.wins / s.versusGames : null,
+        averageScore: played ? s.scoreSum / s.gamesPlayed : null,
+        bestScore: played ? s.bestScore : null,
+        yahtzees: s.yahtzees,
+        upperBonusRate: played && ruleSet.upperBonus ? s.upperBonuses / s.gamesPlayed : null,
+        categoryAverages: ruleSet.categories.flatMap((rule) => {
+            const box = s.categories[rule.id];
+            return box?.count ? [{ category: rule.id, average: box.sum / box.count }] : [];
+        }),
+    };
+}
+
+const STORAGE_KEY = 'sarzee:profiles';
+
+export function loadProfiles(): PlayerProfile[] {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return [];
+        const data = JSON.parse(raw) as { version: number; profiles: PlayerProfile[] };
+        return data.version === 1 && Array.isArray(data.profiles) ? data.profiles : [];
+    } catch (e) {
+        console.warn('Discarding unreadable player profiles', e);
+        return [];
+    }
+}
+
+export function saveProfiles(profiles: PlayerProfile[]) {
+    try {
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, profiles }));
+    } catch (e) {
+        // Private mode or a full quota: this game's stats are lost, the profiles stay as they were
+        console.warn('Could not save player profiles', e);
+    }
+}
+
+export function createProfile(name: string, diceColor: string, favoriteBoard: string | null = null): PlayerProfile {
+    return {
+        id: `p${Date.now().toString(36)}${Math.floor(Math.random() * 36 ** 4).toString(36)}`,
+        name,
+        diceColor,
+        favoriteBoard,
+        createdAt: Date.now(),
+        stats: {},
+    };
+}
@@ -0,0 +1,294 @@
+import { CategoryRule, DieValue, RuleSet, RuleSetId, ScoreCategory } from './types';
+
+// --- Scoring helpers ---
+
+function countFaces(dice: DieValue[]): number[] {
+    const counts = new Array(7).fill(0);
+    for (const d of dice) counts[d]++;
+    return counts;
+}
+
+function sumDice(dice: DieValue[]): number {
+    return dice.reduce<number>((sum, d) => sum + d, 0);
+}
+
+/** Faces showing at least `n` times, highest first. */
+function facesWithAtLeast(counts: number[], n: number): number[] {
+    const faces: number[] = [];
+    for (let face = 6; face >= 1; face--) {
+        if (counts[face] >= n) faces.push(face);
+    }
+    return faces;
+}
+
+function hasRun(dice: DieValue[], length: number): boolean {
+    const uniqueSorted = Array.from(new Set(dice)).sort((a, b) => a - b);
+    let currentSeq = 1;
+    let maxSeq = 1;
+
+    for (let i = 0; i < uniqueSorted.length - 1; i++) {
+        if (uniqueSorted[i + 1] === uniqueSorted[i] + 1) {
+            currentSeq++;
+        } else {
+            currentSeq = 1;
+        }
+        maxSeq = Math.max(maxSeq, currentSeq);
+    }
+    return maxSeq >= length;
+}
+
+function containsFaces(dice: DieValue[], faces: number[]): boolean {
+    const present = new Set<number>(dice);
+    return faces.every((f) => present.has(f));
+}
+
+function allSame(dice: DieValue[]): boolean {
+    return dice.length > 0 && dice.every((d) => d === dice[0]);
+}
+
+/** Best `a * na + b * nb` over two different faces a, b (Full House, Castle, Tower). */
+function bestCombo(counts: number[], na: number, nb: number): number {
+    let best = 0;
+    for (const a of facesWithAtLeast(counts, na)) {
+        for (const b of facesWithAtLeast(counts, nb)) {
+            if (a !== b) best = Math.max(best, a * na + b * nb);
+        }
+    }
+    return best;
+}
+
+/** Sum of the highest `pairs` distinct pairs, or 0 if there aren't enough. */
+function sumOfPairs(counts: number[], pairs: number): number {
+    const faces = facesWithAtLeast(counts, 2);
+    if (faces.length < pairs) return 0;
+    return faces.slice(0, pairs).reduce((sum, f) => sum + f * 2, 0);
+}
+
+/** Highest face showing `n` times, scored as n of that face (Scandinavian style). */
+function nOfAKind(counts: number[], n: number): number {
+    const faces = facesWithAtLeast(counts, n);
+    return faces.length > 0 ? faces[0] * n : 0;
+}
+
+const upperSection = (labels: string[] = ['Ones', 'Twos', 'Threes', 'Fours', 'Fives', 'Sixes']): CategoryRule[] =>
+    [
+        ScoreCategory.Ones,
+        ScoreCategory.Twos,
+        ScoreCategory.Threes,
+        ScoreCategory.Fours,
+        ScoreCategory.Fives,
+        ScoreCategory.Sixes,
+    ].map((id, i) => ({
+        id,
+        label: labels[i],
+        section: 'upper',
+        score: (dice) => countFaces(dice)[i + 1] * (i + 1),
+    }));
+
+// --- Built-in rule sets ---
+
+/** American Yahtzee: 13 boxes, 35 upper bonus, 100-point extra Yahtzees with Joker rules. */
+export const CLASSIC_RULES: RuleSet = {
+    id: 'classic',
+    name: 'Classic',
+    description: 'American rules: 5 dice, 35 upper bonus, Yahtzee bonus and Jokers.',
+    diceCount: 5,
+    turns: 13,
+    upperBonus: { threshold: 63, points: 35 },
+    yahtzeeBonus: {
+        points: 100,
+        jokerScores: {
+            [ScoreCategory.FullHouse]: 25,
+            [ScoreCategory.SmallStraight]: 30,
+            [ScoreCategory.LargeStraight]: 40,
+        },
+    },
+    categories: [
+        ...upperSection(),
+        {
+            id: ScoreCategory.ThreeOfAKind,
+            label: '3 of a Kind',
+            section: 'lower',
+            score: (dice) => (facesWithAtLeast(countFaces(dice), 3).length > 0 ? sumDice(dice) : 0),
+        },
+        {
+            id: ScoreCategory.FourOfAKind,
+            label: '4 of a Kind',
+            section: 'lower',
+            score: (dice) => (facesWithAtLeast(countFaces(dice), 4).length > 0 ? sumDice(dice) : 0),
+        },
+        {
+            id: ScoreCategory.FullHouse,
+            label: 'Full House',
+            section: 'lower',
+            // 3 of one number and 2 of another; a Yahtzee only counts as a Joker
+            score: (dice) => {
+                const counts = countFaces(dice);
+                return counts.includes(3) && counts.includes(2) ? 25 : 0;
+            },
+        },
+        {
+            id: ScoreCategory.SmallStraight,
+            label: 'Sm. Straight',
+            section: 'lower',
+            score: (dice) => (hasRun(dice, 4) ? 30 : 0),
+        },
+        {
+            id: ScoreCategory.LargeStraight,
+            label: 'Lg. Straight',
+            section: 'lower',
+            score: (dice) => (hasRun(dice, 5) ? 40 : 0),
+        },
+        {
+            id: ScoreCategory.Yahtzee,
+            label: 'Yahtzee',
+            section: 'lower',
+            score: (dice) => (allSame(dice) ? 50 : 0),
+        },
+        {
+            id: ScoreCategory.Chance,
+            label: 'Chance',
+            section: 'lower',
+            score: (dice) => sumDice(dice),
+        },
+    ],
+};
+
+/** Scandinavian Yatzy: pairs, fixed straights, sum-scored Full House, 50 upper bonus. */
+export const YATZY_RULES: RuleSet = {
+    id: 'yatzy',
+    name: 'Yatzy',
+    description: 'Scandinavian rules: One Pair, Two Pairs, 50 upper bonus, 50-point Yatzy.',
+    diceCount: 5,
+    turns: 15,
+    upperBonus: { threshold: 63, points: 50 },
+    categories: [
+        ...upperSection(),
+        { id: ScoreCategory.OnePair, label: 'One Pair', section: 'lower', score: (dice) => sumOfPairs(countFaces(dice), 1) },
+        { id: ScoreCategory.TwoPairs, label: 'Two Pairs', section: 'lower', score: (dice) => sumOfPairs(countFaces(dice), 2) },
+        { id: ScoreCategory.ThreeOfAKind, label: '3 of a Kind', section: 'lower', score: (dice) => nOfAKind(countFaces(dice), 3) },
+        { id: ScoreCategory.FourOfAKind, label: '4 of a Kind', section: 'lower', score: (dice) => nOfAKind(countFaces(dice), 4) },
+        {
+            id: ScoreCategory.SmallStraight,
+            label: 'Sm. Straight',
+            section: 'lower',
+            score: (dice) => (containsFaces(dice, [1, 2, 3, 4, 5]) ? 15 : 0),
+        },
+        {
+            id: ScoreCategory.LargeStraight,
+            label: 'Lg. Straight',
+            section: 'lower',
+            score: (dice) => (containsFaces(dice, [2, 3, 4, 5, 6]) ? 20 : 0),
+        },
+        { id: ScoreCategory.FullHouse, label: 'Full House', section: 'lower', score: (dice) => bestCombo(countFaces(dice), 3, 2) },
+        { id: ScoreCategory.Chance, label: 'Chance', section: 'lower', score: (dice) => sumDice(dice) },
+        { id: ScoreCategory.Yahtzee, label: 'Yatzy', section: 'lower', score: (dice) => (allSame(dice) ? 50 : 0) },
+    ],
+};
+
+/** Maxi Yatzy: six dice, three pairs, Castle and Tower, 100-point Maxi Yatzy. */
+export const MAXI_YATZY_RULES: RuleSet = {
+    id: 'maxi-yatzy',
+    name: 'Maxi Yatzy',
+    description: 'Six dice and 20 boxes: Three Pairs, Castle, Tower, 100-point Maxi Yatzy.',
+    diceCount: 6,
+    turns: 20,
+    upperBonus: { threshold: 84, points: 50 },
+    categories: [
+        ...upperSection(),
+        { id: ScoreCategory.OnePair, label: 'One Pair', section: 'lower', score: (dice) => sumOfPairs(countFaces(dice), 1) },
+        { id: ScoreCategory.TwoPairs, label: 'Two Pairs', section: 'lower', score: (dice) => sumOfPairs(countFaces(dice), 2) },
+        { id: ScoreCategory.ThreePairs, label: 'Three Pairs', section: 'lower', score: (dice) => sumOfPairs(countFaces(dice), 3) },
+        { id: ScoreCategory.ThreeOfAKind, label: '3 of a Kind', section: 'lower', score: (dice) => nOfAKind(countFaces(dice), 3) },
+        { id: ScoreCategory.FourOfAKind, label: '4 of a Kind', section: 'lower', score: (dice) => nOfAKind(countFaces(dice), 4) },
+        { id: ScoreCategory.FiveOfAKind, label: '5 of a Kind', section: 'lower', score: (dice) => nOfAKind(countFaces(dice), 5) },
+        {
+            id: ScoreCategory.SmallStraight,
+            label: 'Sm. Straight',
+            section: 'lower',
+            score: (dice) => (containsFaces(dice, [1, 2, 3, 4, 5]) ? 15 : 0),
+        },
+        {
+            id: ScoreCategory.LargeStraight,
+            label: 'Lg. Straight',
+            section: 'lower',
+            score: (dice) => (containsFaces(dice, [2, 3, 4, 5, 6]) ? 20 : 0),
+        },
+        {
+            id: ScoreCategory.FullStraight,
+            label: 'Full Straight',
+            section: 'lower',
+            score: (dice) => (containsFaces(dice, [1, 2, 3, 4, 5, 6]) ? 21 : 0),
+        },
+        { id: ScoreCategory.FullHouse, label: 'Full House', section: 'lower', score: (dice) => bestCombo(countFaces(dice), 3, 2) },
+        { id: ScoreCategory.Castle, label: 'Castle', section: 'lower', score: (dice) => bestCombo(countFaces(dice), 3, 3) },
+        { id: ScoreCategory.Tower, label: 'Tower', section: 'lower', score: (dice) => bestCombo(countFaces(dice), 4, 2) },
+        { id: ScoreCategory.Chance, label: 'Chance', section: 'lower', score: (dice) => sumDice(dice) },
+        { id: ScoreCategory.Yahtzee, label: 'Maxi Yatzy', section: 'lower', score: (dice) => (allSame(dice) ? 100 : 0) },
+    ],
+};
+
+/** Bonus for making a Generala hand on the first roll of the turn ("servida"). */
+const GENERALA_SERVED_BONUS = 5;
+
+const isGeneralaStraight = (dice: DieValue[]) =>
+    [[1, 2, 3, 4, 5], [2, 3, 4, 5, 6], [1, 3, 4, 5, 6]].some((run) => containsFaces(dice, run));
+
+/** Generala: eleven boxes, no upper bonus, +5 for hands made on the first roll. */
+export const GENERALA_RULES: RuleSet = {
+    id: 'generala',
+    name: 'Generala',
+    description: 'Latin American rules: Escalera, Full, Póker, Generala and Double Generala.',
+    diceCount: 5,
+    turns: 11,
+    categories: [
+        ...upperSection(['Uno', 'Dos', 'Tres', 'Cuatro', 'Cinco', 'Seis']),
+        {
+            id: ScoreCategory.LargeStraight,
+            label: 'Escalera',
+            section: 'lower',
+            score: (dice, ctx) => (isGeneralaStraight(dice) ? 20 + (ctx.rollNumber === 1 ? GENERALA_SERVED_BONUS : 0) : 0),
+        },
+        {
+            id: ScoreCategory.FullHouse,
+            label: 'Full',
+            section: 'lower',
+            score: (dice, ctx) => {
+                const counts = countFaces(dice);
+                const isFull = counts.includes(3) && counts.includes(2);
+                return isFull ? 30 + (ctx.rollNumber === 1 ? GENERALA_SERVED_BONUS : 0) : 0;
+            },
+        },
+        {
+            id: ScoreCategory.FourOfAKind,
+            label: 'Póker',
+            section: 'lower',
+            score: (dice, ctx) =>
+                facesWithAtLeast(countFaces(dice), 4).length > 0 ? 40 + (ctx.rollNumber === 1 ? GENERALA_SERVED_BONUS : 0) : 0,
+        },
+        { id: ScoreCategory.Yahtzee, label: 'Generala', section: 'lower', score: (dice) => (allSame(dice) ? 50 : 0) },
+        {
+            id: ScoreCategory.DoubleYahtzee,
+            label: 'Doble Generala',
+            section: 'lower',
+            // Only pays once the Generala box already holds 50
+            score: (dice, ctx) => (allSame(dice) && ctx.scorecard[ScoreCategory.Yahtzee] === 50 ? 100 : 0),
+        },
+    ],
+};
+
+export const RULE_SETS: Record<RuleSetId, RuleSet> = {
+    classic: CLASSIC_RULES,
+    yatzy: YATZY_RULES,
+    'maxi-yatzy': MAXI_YATZY_RULES,
+    generala: GENERALA_RULES,
+};
+
+/** For ids from outside (a request, a file): only the variants themselves, not whatever else an object has on it. */
+export function isRuleSetId(id: unknown): id is RuleSetId {
+    return typeof id === 'string' && Object.hasOwn(RULE_SETS, id);
+}
+
+export function getRuleSet(id: RuleSetId): RuleSet {
+    return RULE_SETS[id] ?? CLASSIC_RULES;
+}
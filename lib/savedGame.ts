@@ -0,0 +1,64 @@
+import { CpuSeat } from './CpuAgent';
+import { DiceSourceState } from './DiceSource';
+import { SarzeeEngine, SerializedEngine } from './SarzeeEngine';
+import { TieBreakerId } from './standings';
+
+/**
+ * The one in-progress game kept in localStorage so a refresh or a sleeping
+ * tablet doesn't lose it. Engines carry the rules and scores; the rest is the
+ * table setup the page needs to put everyone back in their seats.
+ */
+export interface SavedGame {
+    version: 1;
+    savedAt: number;
+    engines: SerializedEngine[];
+    customNames: string[];
+    playerDiceColors: string[];
+    selectedBoard: string;
+    activePlayer: number;
+    cpuSeats: (CpuSeat | null)[];
+    tieBreakers?: TieBreakerId[];
+    /** Seed and draw position of the shared dice source. */
+    dice?: DiceSourceState;
+    /** Profile id per seat, for the stats once the game is over. */
+    seatProfiles?: (string | null)[];
+    /** The seed was typed in at setup, so the finished game isn't sent to the leaderboard. */
+    seedTyped?: boolean;
+}
+
+const STORAGE_KEY = 'sarzee:savedGame';
+
+export function saveGame(game: Omit<SavedGame, 'version' | 'savedAt'>) {
+    try {
+        const data: SavedGame = { version: 1, savedAt: Date.now(), ...game };
+        window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    } catch (e) {
+        // Private mode or a full quota: the game goes on, it just can't be resumed
+        console.warn('Could not save game', e);
+    }
+}
+
+/** The saved game, or null if there is none or it can no longer be restored. */
+export function loadSavedGame(): SavedGame | null {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_KEY);
+        if (!raw) return null;
+        const data = JSON.parse(raw) as SavedGame;
+        if (data.version !== 1 || !Array.isArray(data.engines) || data.engines.length === 0) return null;
+        // Make sure every engine still restores before offering to resume
+        data.engines.forEach((e) => SarzeeEngine.deserialize(e));
+        if (data.activePlayer < 0 || data.activePlayer >= data.engines.length) return null;
+        return data;
+    } catch (e) {
+        console.warn('Discarding unreadable saved game', e);
+        return null;
+    }
+}
+
+export function clearSavedGame() {
+    try {
+        window.localStorage.removeItem(STORAGE_KEY);
+    } catch {
+        // ignore
+    }
+}
@@ -0,0 +1,56 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { gameOf, ScoreEntry } from './leaderboard';
+
+/**
+ * The leaderboard's storage on the server: one JSON file, by default
+ * `data/scores.json` next to the app (or wherever SARZEE_SCORES_FILE points).
+ * An office's worth of games stays small, so the whole file is read and
+ * rewritten each time. Server only.
+ */
+interface ScoreFile {
+    version: 1;
+    entries: ScoreEntry[];
+}
+
+export function scoresFile(): string {
+    return process.env.SARZEE_SCORES_FILE || path.join(process.cwd(), 'data', 'scores.json');
+}
+
+export async function readScores(file = scoresFile()): Promise<ScoreEntry[]> {
+    let raw: string;
+    try {
+        raw = await readFile(file, 'utf8');
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw e;
+    }
+    const data = JSON.parse(raw) as ScoreFile;
+    if (data.version !== 1 || !Array.isArray(data.entries)) throw new Error(`${file} is not a scores file`);
+    return data.entries;
+}
+
+// Writes queue up behind each other so two games finishing together don't drop one
+let writing: Promise<unknown> = Promise.resolve();
+
+/**
+ * Store new entries, skipping keys already there and any other game on a seed
+ * already stored (a replay of a known seed). Resolves to how many were added.
+ */
+export function addScores(entries: ScoreEntry[], file = scoresFile()): Promise<number> {
+    const next = writing.then(async () => {
+        const stored = await readScores(file);
+        const keys = new Set(stored.map((e) => e.key));
+        const games = new Set(stored.map(gameOf));
+        const added = entries.filter((e) => !keys.has(e.key) && !games.has(gameOf(e)));
+        if (added.length === 0) return 0;
+        const data: ScoreFile = { version: 1, entries: [...stored, ...added] };
+        // Write beside the file and swap it in, so a crash mid-write can't leave half a file
+        await mkdir(path.dirname(file), { recursive: true });
+        await writeFile(`${file}.tmp`, JSON.stringify(data));
+        await rename(`${file}.tmp`, file);
+        return added.length;
+    });
+    writing = next.catch(() => undefined);
+    return next;
+}
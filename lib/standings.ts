@@ -0,0 +1,76 @@
+import { GameState, RuleSet, ScoreCategory } from './types';
+
+/**
+ * End-of-game placings. Players are ranked by total score; the table can pick
+ * tie-breakers to separate equal totals, applied in order. Whoever is still
+ * level after all of them shares the placing.
+ */
+export type TieBreakerId = 'yahtzees' | 'upper';
+
+export interface TieBreaker {
+    id: TieBreakerId;
+    label: string;
+    value: (state: GameState, ruleSet: RuleSet) => number;
+}
+
+export const TIE_BREAKERS: TieBreaker[] = [
+    {
+        id: 'yahtzees',
+        label: 'Most Yahtzees',
+        // The Yahtzee box plus one per bonus; variants without the bonus only count the box
+        value: (state, ruleSet) =>
+            (state.scorecard[ScoreCategory.Yahtzee] ? 1 : 0) +
+            (ruleSet.yahtzeeBonus ? state.yahtzeeBonus / ruleSet.yahtzeeBonus.points : 0),
+    },
+    {
+        id: 'upper',
+        label: 'Highest upper section',
+        value: (state) => state.upperSubtotal + state.upperBonus,
+    },
+];
+
+/** A player's final placing; players level on score and every tie-breaker share a place. */
+export interface Standing {
+    player: number;
+    name: string;
+    score: number;
+    place: number;
+    /** Last tie-breaker needed to split this player from the others on the same total, if any. */
+    decidedBy: TieBreakerId | null;
+}
+
+export function getTieBreaker(id: TieBreakerId): TieBreaker {
+    const tieBreaker = TIE_BREAKERS.find((t) => t.id === id);
+    if (!tieBreaker) throw new Error(`Unknown tie-breaker: ${id}`);
+    return tieBreaker;
+}
+
+/** Rank players (in seat order) by total, then by each tie-breaker; ties keep seat order. */
+export function rankStandings(
+    players: { name: string; state: GameState }[],
+    ruleSet: RuleSet,
+    tieBreakers: TieBreakerId[] = []
+): Standing[] {
+    const keys = players.map((p) => [p.state.totalScore, ...tieBreakers.map((id) => getTieBreaker(id).value(p.state, ruleSet))]);
+
+    // First position where a's key beats (>0) or trails (<0) b's
+    const compare = (a: number[], b: number[]) => {
+        const i = a.findIndex((v, k) => v !== b[k]);
+        return i === -1 ? 0 : a[i] - b[i];
+    };
+
+    return players
+        .map((p, player) => {
+            const key = keys[player];
+            const sameScore = keys.filter((k, other) => other !== player && k[0] === key[0]);
+            const split = sameScore.map((k) => k.findIndex((v, i) => v !== key[i])).filter((i) => i > 0);
+            return {
+                player,
+                name: p.name,
+                score: key[0],
+                place: 1 + keys.filter((k) => compare(k, key) > 0).length,
+                decidedBy: split.length > 0 ? tieBreakers[Math.max(...split) - 1] : null,
+            };
+        })
+        .sort((a, b) => a.place - b.place || a.player - b.player);
+}
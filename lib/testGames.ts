@@ -0,0 +1,35 @@
+import { CpuDifficulty } from './CpuAgent';
+import { DiceSource, SeededDiceSource } from './DiceSource';
+import { GameSession, SessionPlayer } from './GameSession';
+import { CLASSIC_RULES } from './rulesets';
+import { RuleSet } from './types';
+
+/** Shared fixtures for the test scripts: seats and whole games played out without anyone at the table. */
+export const human = (name: string, diceColor = '#FFFFFF'): SessionPlayer => ({ name, diceColor, cpu: null });
+
+export const computer = (name: string, difficulty: CpuDifficulty = 'beginner', diceColor = '#FFFFFF'): SessionPlayer =>
+    ({ name, diceColor, cpu: { difficulty, mistakeRate: 0 } });
+
+export type PlayTurn = (session: GameSession) => void;
+
+/** Every turn timed out: one roll scored greedily, a whole game in a blink. */
+export const timedOut: PlayTurn = (session) => {
+    session.autoCommit();
+};
+
+/** Play every remaining turn the same way. */
+export function playOut(session: GameSession, playTurn: PlayTurn = timedOut): GameSession {
+    while (!session.isGameOver()) playTurn(session);
+    return session;
+}
+
+/** A finished game for these seats on a seeded dice stream. */
+export function finishedGame(
+    players: SessionPlayer[],
+    seed: number | DiceSource,
+    ruleSet: RuleSet = CLASSIC_RULES,
+    playTurn: PlayTurn = timedOut
+): GameSession {
+    const dice = typeof seed === 'number' ? new SeededDiceSource(seed) : seed;
+    return playOut(new GameSession(ruleSet, players, dice), playTurn);
+}
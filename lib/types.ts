@@ -15,19 +15,82 @@ export enum ScoreCategory {
     LargeStraight = 'LargeStraight',
     Yahtzee = 'Yahtzee',
     Chance = 'Chance',
+
+    // Variant-only boxes (Yatzy, Maxi Yatzy, Generala)
+    OnePair = 'OnePair',
+    TwoPairs = 'TwoPairs',
+    ThreePairs = 'ThreePairs',
+    FiveOfAKind = 'FiveOfAKind',
+    FullStraight = 'FullStraight',
+    Castle = 'Castle',
+    Tower = 'Tower',
+    DoubleYahtzee = 'DoubleYahtzee',
+}
+
+/** Only the categories of the active rule set are present; `null` means open. */
+export type Scorecard = Partial<Record<ScoreCategory, number | null>>;
+
+export const UPPER_CATEGORIES: ScoreCategory[] = [
+    ScoreCategory.Ones,
+    ScoreCategory.Twos,
+    ScoreCategory.Threes,
+    ScoreCategory.Fours,
+    ScoreCategory.Fives,
+    ScoreCategory.Sixes,
+];
+
+export type RuleSetId = 'classic' | 'yatzy' | 'maxi-yatzy' | 'generala';
+
+export interface ScoringContext {
+    /** 1 on the first roll of the turn; some variants pay extra for a "served" hand. */
+    rollNumber: number;
+    scorecard: Scorecard;
+}
+
+export interface CategoryRule {
+    id: ScoreCategory;
+    label: string;
+    section: 'upper' | 'lower';
+    score: (dice: DieValue[], ctx: ScoringContext) => number;
 }
 
-export type Scorecard = Record<ScoreCategory, number | null>;
+export interface RuleSet {
+    id: RuleSetId;
+    name: string;
+    description: string;
+    diceCount: number;
+    /** Number of scoring turns; every variant fills one box per turn. */
+    turns: number;
+    categories: CategoryRule[];
+    upperBonus?: { threshold: number; points: number };
+
+    /**
+     * Extra points for each additional Yahtzee once the Yahtzee box holds its
+     * full value, plus the Joker scores that replace the normal lower-section
+     * scoring for that roll. Variants without the rule omit it.
+     */
+    yahtzeeBonus?: { points: number; jokerScores: Partial<Record<ScoreCategory, number>> };
+}
 
 export interface GameState {
-    currentTurn: number; // 1..13
+    ruleSetId: RuleSetId;
+    currentTurn: number; // 1..ruleSet.turns
     rollsLeft: number; // 3,2,1,0
     diceValues: DieValue[];
-    heldDice: boolean[]; // indices 0-4
+    heldDice: boolean[]; // one per die
     scorecard: Scorecard;
     isGameOver: boolean;
 
-    /** Running total including bonuses (upper bonus + Yahtzee bonus). */
+    /** Sum of the six upper-section boxes. */
+    upperSubtotal: number;
+
+    /** Upper-section bonus (classic: +35 once the upper subtotal reaches 63). */
+    upperBonus: number;
+
+    /** Sum of the lower-section boxes plus any Yahtzee bonus. */
+    lowerTotal: number;
+
+    /** Grand total: upper subtotal + upper bonus + lower total. */
     totalScore: number;
 
     /**
@@ -45,4 +108,4 @@ export interface Die {
     rotation: [number, number, number];
 }
 
-export type GamePhase = 'SETUP' | 'PLAYING' | 'GAME_OVER';
+export type GamePhase = 'SETUP' | 'PLAYING' | 'GAME_OVER' | 'REPLAY';
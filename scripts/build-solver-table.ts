@@ -0,0 +1,36 @@
+/**
+ * Precompute the optimal-strategy table for classic Yahtzee and write it where
+ * the app loads it from (public/solver/classic.bin).
+ *
+ *   npm run gen:solver
+ *
+ * With --if-missing an existing table is kept; `npm run dev` uses that so the
+ * Expert level works in development without rebuilding the table every start.
+ */
+import fs from 'fs';
+import path from 'path';
+import { SOLVER_TABLE_URL, YahtzeeSolver } from '../lib/YahtzeeSolver';
+
+const outFile = path.join(__dirname, '..', 'public', SOLVER_TABLE_URL);
+
+if (process.argv.includes('--if-missing') && fs.existsSync(outFile)) {
+    console.log(`${path.relative(process.cwd(), outFile)} is already there`);
+    process.exit(0);
+}
+
+const solver = new YahtzeeSolver();
+const started = Date.now();
+let lastReported = -1;
+solver.buildTable((fraction) => {
+    const pct = Math.floor(fraction * 10) * 10;
+    if (pct !== lastReported) {
+        lastReported = pct;
+        console.log(`  ${pct}%`);
+    }
+});
+
+fs.mkdirSync(path.dirname(outFile), { recursive: true });
+fs.writeFileSync(outFile, solver.serialize());
+
+console.log(`Expected score with optimal play: ${solver.expectedGameScore().toFixed(2)}`);
+console.log(`Wrote ${path.relative(process.cwd(), outFile)} in ${((Date.now() - started) / 1000).toFixed(1)}s`);
@@ -0,0 +1,31 @@
+import { WebSocket, WebSocketServer } from 'ws';
+import { LanPeer, LanRelay } from '../lib/LanRelay';
+import { LAN_PORT } from '../lib/lanProtocol';
+
+// Relay for local-network games. Run it next to `next start`:
+//   npm run lan-server            (listens on 3001, or SARZEE_LAN_PORT)
+const port = Number(process.env.SARZEE_LAN_PORT) || LAN_PORT;
+const relay = new LanRelay();
+const wss = new WebSocketServer({ port });
+
+wss.on('connection', (socket: WebSocket) => {
+    const peer: LanPeer = {
+        send: (message) => {
+            if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+        },
+    };
+
+    socket.on('message', (data) => {
+        let message: unknown;
+        try {
+            message = JSON.parse(data.toString());
+        } catch {
+            peer.send({ type: 'error', message: 'Unreadable message' });
+            return;
+        }
+        relay.handle(peer, message);
+    });
+    socket.on('close', () => relay.disconnect(peer));
+});
+
+wss.on('listening', () => console.log(`Sarzee LAN relay listening on ws://0.0.0.0:${port}`));